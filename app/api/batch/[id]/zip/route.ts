@@ -0,0 +1,34 @@
+// app/api/batch/[id]/zip/route.ts
+
+import { NextResponse } from "next/server";
+import { buildBatchZip, isBatchResult } from "@/lib/batch";
+import { errorResponse, internalError } from "@/lib/errors";
+import { getJobStore, isFinished } from "@/lib/jobs";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Every poster of a finished batch plus manifest.json, as one ZIP. Batches
+// are jobs, so this works for as long as the job is kept.
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const job = getJobStore().get(id);
+    if (!job || !isBatchResult(job.result)) return errorResponse(404, { error: "Batch not found", code: "not_found" });
+    if (!isFinished(job)) {
+      return errorResponse(409, { error: "Batch is still running", code: "not_ready", retryable: true });
+    }
+
+    const zip = await buildBatchZip(getStorage(), job.result, job);
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="kids-posters-${id.slice(0, 8)}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,129 @@
+// app/api/batch/route.ts
+
+import { after, NextResponse } from "next/server";
+import { batchCapacity, BatchResult, processBatch } from "@/lib/batch";
+import { getChildRepository, getOwnedChild } from "@/lib/children";
+import { errorResponse, internalError } from "@/lib/errors";
+import { describeGenerateError, generateParams, refundsQuota } from "@/lib/generate";
+import { GenerateResponse, parsePosterSettings } from "@/lib/generate-schema";
+import { getJobStore, runJob } from "@/lib/jobs";
+import { getPosterRepository, PosterRepository } from "@/lib/posters";
+import { getImageProvider, ImageProvider, ImageSize } from "@/lib/providers";
+import {
+  applyQuota,
+  consumeExtraQuota,
+  consumeQuota,
+  getRateLimitStore,
+  identifyClient,
+  quotaLimits,
+  quotaRefusal,
+  RateLimitStore,
+  refundQuota,
+  sessionId,
+} from "@/lib/ratelimit";
+import { getStorage, StorageDriver } from "@/lib/storage";
+import { MAX_TOTAL_UPLOAD_BYTES, readImageUploads, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+// A batch runs many generations back to back; it needs a long-running server.
+export const maxDuration = 300;
+
+// Each drawing gets the same budget as a single /api/generate job.
+const ITEM_TIMEOUT_MS = 55_000;
+// The whole batch, with time left to record the last drawing.
+const BATCH_BUDGET_MS = (maxDuration - 10) * 1000;
+
+// Applies one settings set to as many drawings (repeated `image` fields) as
+// fit in the time budget, and returns a job id. The job's `result.items` shows every drawing's
+// status while it runs; GET /api/batch/[id]/zip downloads the finished posters.
+// The whole batch is charged to the client's quota up front; drawings that
+// fail on our side are given back.
+export async function POST(req: Request) {
+  const started = Date.now();
+  try {
+    let provider: ImageProvider;
+    let storage: StorageDriver;
+    let repository: PosterRepository;
+    let limiter: RateLimitStore;
+    try {
+      provider = getImageProvider();
+      storage = getStorage();
+      repository = getPosterRepository();
+      limiter = getRateLimitStore();
+    } catch (err) {
+      return errorResponse(500, internalError(err));
+    }
+
+    const fast = new URL(req.url).searchParams.get("fast") === "1";
+    const size: ImageSize = fast ? "1024x1024" : "1024x1536";
+
+    if (Number(req.headers.get("content-length")) > MAX_TOTAL_UPLOAD_BYTES) {
+      throw new UploadError("file_too_large", `A batch can be at most ${MAX_TOTAL_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+    }
+    const form = await req.formData();
+    const count = form.getAll("image").length;
+    const capacity = batchCapacity(BATCH_BUDGET_MS, ITEM_TIMEOUT_MS);
+    const { value: settings, error } = parsePosterSettings(form);
+
+    if (!count) return errorResponse(400, { error: "No image uploaded", code: "missing_image" });
+    if (count > capacity) {
+      return errorResponse(400, {
+        error: `A batch takes at most ${capacity} drawings`,
+        code: "invalid_param",
+        details: { field: "image", max: capacity },
+      });
+    }
+    if (!settings) return NextResponse.json(error, { status: 400 });
+    const { childId } = settings;
+    const params = generateParams(settings, size);
+    const client = identifyClient(req);
+    if (childId && !(await getOwnedChild(getChildRepository(), childId, client.session))) {
+      return errorResponse(400, { error: "Unknown childId", code: "invalid_param" });
+    }
+    const images = await readImageUploads(form);
+
+    const chargedAt = Date.now();
+    const quota = await consumeQuota(limiter, client, images.length * params.variations, quotaLimits(), chargedAt);
+    if (!quota.allowed) {
+      return applyQuota(errorResponse(429, quotaRefusal(quota)), client, quota);
+    }
+
+    const jobs = getJobStore();
+    const job = jobs.create<BatchResult>();
+
+    after(() =>
+      runJob(
+        jobs,
+        job,
+        () =>
+          processBatch({
+            images,
+            params,
+            ownerId: sessionId(client),
+            childId,
+            provider,
+            storage,
+            repository,
+            timeoutMs: ITEM_TIMEOUT_MS,
+            deadline: started + BATCH_BUDGET_MS,
+            onUpdate: (result, progress) => jobs.update<BatchResult>(job.id, { stage: "processing", progress, result }),
+            // Each failed drawing's posters go back on their own, so a failed
+            // batch has been refunded by the time it is described.
+            onFailure: (failure) => {
+              if (refundsQuota(failure)) void refundQuota(limiter, client, params.variations, chargedAt);
+            },
+            reroll: () => consumeExtraQuota(limiter, client, 1),
+          }),
+        describeGenerateError
+      )
+    );
+
+    return applyQuota(
+      NextResponse.json<GenerateResponse>({ jobId: job.id, status: job.status }, { status: 202 }),
+      client,
+      quota
+    );
+  } catch (err: unknown) {
+    return NextResponse.json(describeGenerateError(err), { status: err instanceof UploadError ? err.status : 500 });
+  }
+}
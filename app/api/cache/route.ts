@@ -0,0 +1,16 @@
+// app/api/cache/route.ts
+
+import { NextResponse } from "next/server";
+import { getResultCache } from "@/lib/cache";
+import { errorResponse, internalError } from "@/lib/errors";
+
+export const runtime = "nodejs";
+
+// Result cache statistics: entries, hits, misses and evictions.
+export async function GET() {
+  try {
+    return NextResponse.json(await getResultCache().stats(), { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,59 @@
+// app/api/children/[id]/route.ts
+
+import { NextResponse } from "next/server";
+import { getChildRepository, getOwnedChild, parseChildInput } from "@/lib/children";
+import { errorResponse, internalError } from "@/lib/errors";
+import { identifyClient } from "@/lib/ratelimit";
+
+export const runtime = "nodejs";
+
+// Only the session that created a profile can read, change or delete it;
+// anyone else gets a 404.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const child = await getOwnedChild(getChildRepository(), id, identifyClient(req).session);
+    if (!child) return errorResponse(404, { error: "Child not found", code: "not_found" });
+    return NextResponse.json(child, { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
+
+// Updates the given fields; `palette: null` / `style: null` clear a favourite.
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const repository = getChildRepository();
+    const child = await getOwnedChild(repository, id, identifyClient(req).session);
+    if (!child) return errorResponse(404, { error: "Child not found", code: "not_found" });
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return errorResponse(400, { error: "Expected a JSON body", code: "invalid_param" });
+    }
+    const { input, error } = parseChildInput(body, true);
+    if (error) return errorResponse(400, error);
+
+    const updated = { ...child, ...input, updatedAt: Date.now() };
+    await repository.save(updated);
+    return NextResponse.json(updated);
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
+
+// Deletes the profile. Posters made for the child stay in the gallery.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const repository = getChildRepository();
+    const child = await getOwnedChild(repository, id, identifyClient(req).session);
+    if (!child || !(await repository.delete(id))) {
+      return errorResponse(404, { error: "Child not found", code: "not_found" });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
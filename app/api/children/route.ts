@@ -0,0 +1,41 @@
+// app/api/children/route.ts
+
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { Child, getChildRepository, parseChildInput } from "@/lib/children";
+import { errorResponse, internalError } from "@/lib/errors";
+import { applySession, identifyClient, sessionId } from "@/lib/ratelimit";
+
+export const runtime = "nodejs";
+
+// The caller's profiles; a caller without a session has none yet.
+export async function GET(req: Request) {
+  try {
+    const client = identifyClient(req);
+    const children = client.session ? await getChildRepository().list(client.session) : [];
+    return applySession(NextResponse.json({ children }, { headers: { "Cache-Control": "no-store" } }), client);
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
+
+// Creates a profile from JSON `{ name, birthDate, palette?, style? }`. The
+// caller's session owns it.
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return errorResponse(400, { error: "Expected a JSON body", code: "invalid_param" });
+    }
+    const { input, error } = parseChildInput(body);
+    if (error) return errorResponse(400, error);
+
+    const client = identifyClient(req);
+    const now = Date.now();
+    const child = { ...input, id: randomUUID(), ownerId: sessionId(client), createdAt: now, updatedAt: now } as Child;
+    await getChildRepository().save(child);
+    return applySession(NextResponse.json(child, { status: 201 }), client);
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
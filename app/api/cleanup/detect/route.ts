@@ -0,0 +1,22 @@
+// app/api/cleanup/detect/route.ts
+
+import { NextResponse } from "next/server";
+import { detectPaper } from "@/lib/cleanup";
+import { errorResponse, internalError } from "@/lib/errors";
+import { readImageUpload, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+
+// Suggests paper corners for a photographed drawing: { corners: Quad }.
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const file = await readImageUpload(form.get("image"));
+
+    const corners = await detectPaper(new Uint8Array(await file.arrayBuffer()));
+    return NextResponse.json({ corners });
+  } catch (err: unknown) {
+    if (err instanceof UploadError) return errorResponse(err.status, { error: err.message, code: err.code });
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/cleanup/route.ts
+
+import { NextResponse } from "next/server";
+import { cleanupPhoto, detectPaper, parseQuad } from "@/lib/cleanup";
+import { errorResponse, internalError } from "@/lib/errors";
+import { readImageUpload, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+
+// Straightens, crops and whitens a photographed drawing and returns a JPEG.
+// `corners` (JSON, normalized, TL/TR/BR/BL) overrides automatic detection.
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const file = await readImageUpload(form.get("image"));
+    const cornersField = (form.get("corners") as string) || "";
+    const whiten = (form.get("whiten") as string) !== "false";
+
+    const image = new Uint8Array(await file.arrayBuffer());
+
+    const corners = cornersField ? parseQuad(cornersField) : await detectPaper(image);
+    if (!corners) {
+      return errorResponse(400, {
+        error: "corners must be four [x, y] pairs between 0 and 1, top-left, top-right, bottom-right, bottom-left, enclosing an area",
+        code: "invalid_param",
+      });
+    }
+
+    const cleaned = await cleanupPhoto(image, corners, whiten);
+    return new NextResponse(Buffer.from(cleaned), { headers: { "Content-Type": "image/jpeg" } });
+  } catch (err: unknown) {
+    if (err instanceof UploadError) return errorResponse(err.status, { error: err.message, code: err.code });
+    return errorResponse(500, internalError(err));
+  }
+}
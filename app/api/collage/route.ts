@@ -0,0 +1,128 @@
+// app/api/collage/route.ts
+
+import { after, NextResponse } from "next/server";
+import { getChildRepository, getOwnedChild } from "@/lib/children";
+import { checkPieceCount, isCollageLayout, isCollageOutput, MAX_PIECES, MIN_PIECES } from "@/lib/collage";
+import { errorResponse, internalError } from "@/lib/errors";
+import { generateCollageAndRecord } from "@/lib/gallery";
+import { describeGenerateError, GenerateResult, generateParams, refundsQuota } from "@/lib/generate";
+import { GenerateResponse, parsePosterSettings } from "@/lib/generate-schema";
+import { getJobStore, runJob } from "@/lib/jobs";
+import { getPosterRepository, PosterRepository } from "@/lib/posters";
+import { getImageProvider, ImageProvider } from "@/lib/providers";
+import {
+  applyQuota,
+  consumeQuota,
+  getRateLimitStore,
+  identifyClient,
+  quotaCharge,
+  quotaLimits,
+  quotaRefusal,
+  RateLimitStore,
+  refundQuota,
+  sessionId,
+} from "@/lib/ratelimit";
+import { getStorage, StorageDriver } from "@/lib/storage";
+import { readImageUploads, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Turns 2–9 drawings (repeated `image` fields, in order) into one poster or a
+// matched set, using `layout` (grid, diptych, triptych) and `output` (poster,
+// set). Takes the same style/palette/title fields as /api/generate and
+// returns a job id like it. Each drawing counts as one poster of the quota.
+export async function POST(req: Request) {
+  try {
+    let provider: ImageProvider;
+    let storage: StorageDriver;
+    let repository: PosterRepository;
+    let limiter: RateLimitStore;
+    try {
+      provider = getImageProvider();
+      storage = getStorage();
+      repository = getPosterRepository();
+      limiter = getRateLimitStore();
+    } catch (err) {
+      return errorResponse(500, internalError(err));
+    }
+
+    const form = await req.formData();
+    const count = form.getAll("image").length;
+    const layout = (form.get("layout") as string) || "grid";
+    const output = (form.get("output") as string) || "poster";
+    const { value: settings, error } = parsePosterSettings(form);
+
+    if (count < MIN_PIECES || count > MAX_PIECES) {
+      return errorResponse(400, {
+        error: `Upload ${MIN_PIECES}–${MAX_PIECES} drawings`,
+        code: count ? "invalid_param" : "missing_image",
+      });
+    }
+    if (!isCollageLayout(layout)) {
+      return errorResponse(400, {
+        error: `Unknown layout "${layout}" (expected grid, diptych or triptych)`,
+        code: "invalid_param",
+      });
+    }
+    const countError = checkPieceCount(layout, count);
+    if (countError) return errorResponse(400, { error: countError, code: "invalid_param" });
+    if (!isCollageOutput(output)) {
+      return errorResponse(400, { error: `output must be "poster" or "set"`, code: "invalid_param" });
+    }
+    if (!settings) return NextResponse.json(error, { status: 400 });
+    const { childId } = settings;
+    const params = generateParams(settings, "1024x1024");
+    const client = identifyClient(req);
+    if (childId && !(await getOwnedChild(getChildRepository(), childId, client.session))) {
+      return errorResponse(400, { error: "Unknown childId", code: "invalid_param" });
+    }
+    const images = await readImageUploads(form);
+
+    const cost = images.length;
+    const chargedAt = Date.now();
+    const quota = await consumeQuota(limiter, client, cost, quotaLimits(), chargedAt);
+    if (!quota.allowed) {
+      return applyQuota(errorResponse(429, quotaRefusal(quota)), client, quota);
+    }
+    const charge = quotaCharge(limiter, client, cost);
+
+    const jobs = getJobStore();
+    const job = jobs.create<GenerateResult>();
+
+    after(() =>
+      runJob(
+        jobs,
+        job,
+        (report) =>
+          generateCollageAndRecord({
+            images,
+            params,
+            layout,
+            output,
+            provider,
+            storage,
+            repository,
+            ownerId: sessionId(client),
+            childId,
+            timeoutMs: (maxDuration - 5) * 1000,
+            report,
+            reroll: charge.reroll,
+          }),
+        (err) => {
+          const failure = describeGenerateError(err);
+          if (refundsQuota(failure)) void refundQuota(limiter, client, charge.charged(), chargedAt);
+          return failure;
+        }
+      )
+    );
+
+    return applyQuota(
+      NextResponse.json<GenerateResponse>({ jobId: job.id, status: job.status }, { status: 202 }),
+      client,
+      quota
+    );
+  } catch (err: unknown) {
+    return NextResponse.json(describeGenerateError(err), { status: err instanceof UploadError ? err.status : 500 });
+  }
+}
@@ -0,0 +1,69 @@
+// app/api/export/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { getOwnedPosterRecord, getPosterRepository } from "@/lib/posters";
+import {
+  DEFAULT_PRINT_OPTIONS,
+  exportForPrint,
+  isPaperFormat,
+  PrintOptions,
+} from "@/lib/print";
+import { identifyClient } from "@/lib/ratelimit";
+import { getStorage } from "@/lib/storage";
+import { readImageUpload, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Renders a print-ready PNG or PDF. Send either the final poster as `image`
+// (e.g. with a locally overlaid title) or the storage `key` of one of the
+// caller's generated posters.
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const file = form.get("image") ? await readImageUpload(form.get("image")) : null;
+    const key = (form.get("key") as string) || "";
+
+    const format = (form.get("format") as string) || DEFAULT_PRINT_OPTIONS.format;
+    if (!isPaperFormat(format)) {
+      return errorResponse(400, { error: `Unknown format "${format}"`, code: "invalid_param" });
+    }
+
+    const orientation = (form.get("orientation") as string) === "landscape" ? "landscape" : "portrait";
+    const output = (form.get("output") as string) === "png" ? "png" : "pdf";
+    const fit = (form.get("fit") as string) === "contain" ? "contain" : "cover";
+    const marginMm = Number(form.get("marginMm") ?? DEFAULT_PRINT_OPTIONS.marginMm);
+    const bleedMm = Number(form.get("bleedMm") ?? DEFAULT_PRINT_OPTIONS.bleedMm);
+    if (!Number.isFinite(marginMm) || marginMm < 0 || marginMm > 150) {
+      return errorResponse(400, { error: "marginMm must be 0–150", code: "invalid_param" });
+    }
+    if (!Number.isFinite(bleedMm) || bleedMm < 0 || bleedMm > 10) {
+      return errorResponse(400, { error: "bleedMm must be 0–10", code: "invalid_param" });
+    }
+
+    let poster: Uint8Array | null = null;
+    if (file) {
+      poster = new Uint8Array(await file.arrayBuffer());
+    } else if (key) {
+      const record = await getOwnedPosterRecord(getPosterRepository(), key, identifyClient(req).session);
+      poster = record && ((await getStorage().get(key))?.bytes ?? null);
+      if (!poster) return errorResponse(404, { error: "Poster not found", code: "not_found" });
+    }
+    if (!poster) return errorResponse(400, { error: "No image uploaded", code: "missing_image" });
+
+    const opts: PrintOptions = { ...DEFAULT_PRINT_OPTIONS, format, orientation, output, fit, marginMm, bleedMm };
+    const out = await exportForPrint(poster, opts);
+
+    return new NextResponse(Buffer.from(out.bytes), {
+      headers: {
+        "Content-Type": out.contentType,
+        "Content-Disposition": `attachment; filename="kids-poster-${format}.${out.extension}"`,
+      },
+    });
+  } catch (err: unknown) {
+    if (err instanceof UploadError) return errorResponse(err.status, { error: err.message, code: err.code });
+    if (err instanceof RangeError) return errorResponse(400, { error: err.message, code: "invalid_param" });
+    return errorResponse(500, internalError(err));
+  }
+}
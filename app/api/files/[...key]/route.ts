@@ -0,0 +1,35 @@
+// app/api/files/[...key]/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { defaultUrlOptions, getLocalStorage, StorageError } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+// Serves files written by the local storage driver.
+export async function GET(req: Request, { params }: { params: Promise<{ key: string[] }> }) {
+  const storage = getLocalStorage();
+  if (!storage) return errorResponse(404, { error: "Not found", code: "not_found" });
+
+  const { key: parts } = await params;
+  const key = parts.join("/");
+  const url = new URL(req.url);
+
+  if (defaultUrlOptions().signed && !storage.verify(key, url.searchParams.get("expires"), url.searchParams.get("sig"))) {
+    return errorResponse(403, { error: "Link expired or invalid", code: "forbidden" });
+  }
+
+  try {
+    const obj = await storage.get(key);
+    if (!obj) return errorResponse(404, { error: "Not found", code: "not_found" });
+    return new NextResponse(Buffer.from(obj.bytes), {
+      headers: {
+        "Content-Type": obj.contentType,
+        "Cache-Control": defaultUrlOptions().signed ? "private, max-age=300" : "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (err) {
+    if (err instanceof StorageError) return errorResponse(400, { error: err.message, code: "invalid_param" });
+    throw err;
+  }
+}
@@ -0,0 +1,147 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as getJob } from "@/app/api/jobs/[id]/route";
+import { encodeGenerateRequest, GenerateRequest, GenerateResponse } from "@/lib/generate-schema";
+import { GenerateResult } from "@/lib/generate";
+import { Job } from "@/lib/jobs";
+import { getStorage } from "@/lib/storage";
+import { POST } from "./route";
+
+// Outside a request there is no `after()`; run the job straight away and keep
+// its promise so a test can wait for it.
+const background = vi.hoisted(() => [] as Promise<unknown>[]);
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: (task: () => Promise<unknown>) => void background.push(task()),
+}));
+
+let dir = "";
+let drawing: Blob;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "kids-poster-test-"));
+  vi.stubEnv("LOCAL_STORAGE_DIR", dir);
+  const png = await sharp({ create: { width: 64, height: 48, channels: 3, background: "#3366cc" } }).png().toBuffer();
+  drawing = new Blob([new Uint8Array(png)], { type: "image/png" });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  background.length = 0;
+});
+
+function request(body: FormData, cookie?: string): Request {
+  return new Request("http://localhost/api/generate?fast=1", {
+    method: "POST",
+    body,
+    headers: cookie ? { cookie } : {},
+  });
+}
+
+function generateRequest(overrides: Partial<GenerateRequest> = {}): GenerateRequest {
+  return {
+    image: drawing,
+    style: "matisse",
+    palette: [],
+    enforcePalette: false,
+    aiText: false,
+    titleText: "",
+    variations: 1,
+    fidelity: "off",
+    ...overrides,
+  };
+}
+
+async function readJob(id: string): Promise<{ status: number; job: Job<GenerateResult> }> {
+  const res = await getJob(new Request(`http://localhost/api/jobs/${id}`), { params: Promise.resolve({ id }) });
+  return { status: res.status, job: await res.json() };
+}
+
+const sessionCookie = (res: Response) => res.headers.get("set-cookie")?.split(";")[0];
+
+describe("POST /api/generate", () => {
+  it("starts a job that finishes with stored posters and a gallery record", async () => {
+    const res = await POST(request(encodeGenerateRequest(generateRequest({ variations: 2 }))));
+    expect(res.status).toBe(202);
+    const body = (await res.json()) as GenerateResponse;
+    expect(body.status).toBe("queued");
+    expect(res.headers.get("RateLimit-Remaining")).toBe("28");
+    expect(sessionCookie(res)).toMatch(/^kp_session=/);
+
+    await Promise.all(background);
+    const { status, job } = await readJob(body.jobId);
+    expect(status).toBe(200);
+    expect(job.status).toBe("done");
+    expect(job.result?.recordId).toBeTruthy();
+    expect(job.result?.posters).toHaveLength(2);
+    for (const poster of job.result!.posters) {
+      expect(poster.key).toMatch(/^posters\//);
+      expect(await getStorage().get(poster.key)).not.toBeNull();
+    }
+  });
+
+  it("answers the same drawing and settings from the result cache", async () => {
+    const first = await POST(request(encodeGenerateRequest(generateRequest())));
+    const cookie = sessionCookie(first)!;
+    const { jobId } = (await first.json()) as GenerateResponse;
+    await Promise.all(background);
+    const { job } = await readJob(jobId);
+
+    const again = await POST(request(encodeGenerateRequest(generateRequest()), cookie));
+    expect(again.status).toBe(200);
+    const body = (await again.json()) as GenerateResponse;
+    expect(body.status).toBe("done");
+    expect(body.result?.cached).toBe(true);
+    expect(body.result?.recordId).toBe(job.result?.recordId);
+    expect(again.headers.get("RateLimit-Remaining")).toBe("29");
+
+    const forced = await POST(request(encodeGenerateRequest(generateRequest({ force: true })), cookie));
+    expect(forced.status).toBe(202);
+  });
+
+  it("rejects invalid settings with an error envelope", async () => {
+    const body = encodeGenerateRequest(generateRequest());
+    body.set("variations", "9");
+    const res = await POST(request(body));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      code: "invalid_param",
+      retryable: false,
+      details: { field: "variations" },
+    });
+  });
+
+  it("rejects a request without a drawing", async () => {
+    const body = encodeGenerateRequest(generateRequest());
+    body.delete("image");
+    const res = await POST(request(body));
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({ code: "missing_image", retryable: false });
+  });
+
+  it("rejects a file that is not an image", async () => {
+    const res = await POST(request(encodeGenerateRequest(generateRequest({ image: new Blob(["hello"]) }))));
+    expect(res.status).toBe(415);
+    expect(await res.json()).toMatchObject({ code: "unsupported_format" });
+  });
+
+  it("refuses a request over the daily quota without charging it", async () => {
+    vi.stubEnv("GENERATION_DAILY_QUOTA", "2");
+    try {
+      const res = await POST(request(encodeGenerateRequest(generateRequest({ variations: 3 }))));
+      expect(res.status).toBe(429);
+      expect(await res.json()).toMatchObject({ code: "quota_exceeded", retryable: false });
+      expect(res.headers.get("RateLimit-Remaining")).toBe("2");
+      expect(background).toHaveLength(0);
+    } finally {
+      vi.stubEnv("GENERATION_DAILY_QUOTA", undefined);
+    }
+  });
+});
@@ -1,121 +1,143 @@
 // app/api/generate/route.ts
 
-import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import { randomUUID } from "crypto";
+import { after, NextResponse } from "next/server";
+import { cacheKey, cachePolicy, getResultCache, lookupCachedResult } from "@/lib/cache";
+import { errorResponse, internalError } from "@/lib/errors";
+import { generateAndRecord } from "@/lib/gallery";
+import { describeGenerateError, GenerateResult, generateParams, refundsQuota } from "@/lib/generate";
+import { GenerateResponse, parseGenerateRequest } from "@/lib/generate-schema";
+import { getChildRepository, getOwnedChild } from "@/lib/children";
+import { getJobStore, runJob } from "@/lib/jobs";
+import { getImageProvider, ImageProvider, ImageSize } from "@/lib/providers";
+import { getPosterRepository, PosterRepository } from "@/lib/posters";
+import {
+  applyQuota,
+  consumeQuota,
+  getRateLimitStore,
+  identifyClient,
+  quotaCharge,
+  quotaLimits,
+  quotaRefusal,
+  RateLimitStore,
+  readQuota,
+  refundQuota,
+  sessionId,
+} from "@/lib/ratelimit";
+import { getStorage, StorageDriver } from "@/lib/storage";
+import { readImageUpload, UploadError } from "@/lib/uploads";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const bucket = process.env.SUPABASE_BUCKET || "kids-posters";
-const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-
-function base64ToUint8Array(b64: string): Uint8Array {
-  const bin = Buffer.from(b64, "base64");
-  return new Uint8Array(bin);
-}
-
+// Starts a generation job and returns its id right away.
+// Follow progress via GET /api/jobs/[id] or /api/jobs/[id]/events.
+// Finished generations are recorded in the gallery (/api/posters). The same
+// drawing with the same settings is answered from the result cache with an
+// already finished job, unless `force=true`. Other requests are charged
+// `variations` posters against the client's quota (429 when it's used up),
+// which it gets back if the generation fails on our side.
 export async function POST(req: Request) {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json({ error: "Missing OPENAI_API_KEY in .env" }, { status: 500 });
-    }
-    if (!supabaseUrl || !supabaseServiceRoleKey) {
-      return NextResponse.json({ error: "Missing Supabase env vars" }, { status: 500 });
+    let provider: ImageProvider;
+    let storage: StorageDriver;
+    let repository: PosterRepository;
+    let limiter: RateLimitStore;
+    try {
+      provider = getImageProvider();
+      storage = getStorage();
+      repository = getPosterRepository();
+      limiter = getRateLimitStore();
+    } catch (err) {
+      return errorResponse(500, internalError(err));
     }
 
     const url = new URL(req.url);
     const fast = url.searchParams.get("fast") === "1";
-    const isVercel = !!process.env.VERCEL;
 
-    // Use fast profile on Vercel or when requested;
-    // use portrait and longer timeout locally.
-    const size = fast || isVercel ? "1024x1024" : "1024x1536";
-    const timeoutMs = fast || isVercel ? 9000 : 45000;
+    // The job runs after the response is sent, so portrait output no longer
+    // has to fit inside the request timeout. "fast" still opts into square.
+    const size: ImageSize = fast ? "1024x1024" : "1024x1536";
+    const timeoutMs = (maxDuration - 5) * 1000;
 
     const form = await req.formData();
-    const file = form.get("image") as Blob | null;
-    const style = (form.get("style") as string) || "Cut-out modern poster";
-    const accent = (form.get("paletteAccent") as string) || "#E63946";
-    const allowShapes = (form.get("allowShapes") as string) === "true";
-    const aiText = (form.get("aiText") as string) === "true";
-    const titleText = (form.get("titleText") as string) || "";
-
-    if (!file) return NextResponse.json({ error: "No image uploaded" }, { status: 400 });
-
-    const guidance: string[] = [
-      "Preserve ALL original shapes, proportions, and line strokes exactly.",
-      "Do NOT change faces, figures, or geometry. No new characters or objects.",
-      "Recolor using flat, paper-like blocks; clean negative space; wide margins.",
-      `Use a ${style} aesthetic with harmonious palette around accent ${accent}.`,
-    ];
-    if (allowShapes) {
-      guidance.push("You MAY add a few simple abstract shapes (cut-out style) in background or margins, subtle and secondary.");
-    } else {
-      guidance.push("Do NOT add new shapes; only recolor and tidy.");
+    const { value: request, error } = parseGenerateRequest(form);
+    if (!request) return NextResponse.json(error, { status: 400 });
+    const { childId, force } = request;
+    const params = generateParams(request, size);
+    const client = identifyClient(req);
+    const ownerId = sessionId(client);
+    if (childId && !(await getOwnedChild(getChildRepository(), childId, client.session))) {
+      return errorResponse(400, { error: "Unknown childId", code: "invalid_param" });
     }
-    if (aiText && titleText.trim()) {
-      guidance.push(`If adding text, use this title: "${titleText.trim()}" in a clean, minimal layout; keep it unobtrusive.`);
-    } else {
-      guidance.push("Do NOT add any text.");
+    const file = await readImageUpload(form.get("image"));
+
+    const cache = cachePolicy().maxEntries > 0 ? getResultCache() : null;
+    const key = cache && cacheKey(new Uint8Array(await file.arrayBuffer()), params, ownerId);
+
+    if (cache && key && !force) {
+      const cached = await lookupCachedResult(cache, repository, storage, key).catch((err) => {
+        console.error("Result cache lookup failed:", err);
+        return null;
+      });
+      if (cached) {
+        const jobs = getJobStore();
+        const job = jobs.create<GenerateResult>();
+        jobs.update<GenerateResult>(job.id, { status: "done", stage: "done", progress: 100, result: cached });
+        return applyQuota(
+          NextResponse.json<GenerateResponse>({ jobId: job.id, status: "done", result: cached }),
+          client,
+          await readQuota(limiter, client)
+        );
+      }
     }
 
-    const prompt = `
-      Transform the input into a modern living-room poster while following these rules:
-      ${guidance.map((g, i) => `${i + 1}. ${g}`).join("\n")}
-    `;
-
-    const controller = new AbortController();
-    const kill = setTimeout(() => controller.abort(), timeoutMs);
-
-    const openaiResp = await fetch("https://api.openai.com/v1/images/edits", {
-      method: "POST",
-      headers: { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
-      body: (() => {
-        const fd = new FormData();
-        fd.append("image", file, "input.jpg");
-        fd.append("model", "gpt-image-1");
-        fd.append("prompt", prompt);
-        fd.append("size", size);
-        return fd;
-      })(),
-      signal: controller.signal,
-    }).finally(() => clearTimeout(kill));
-
-    if (!openaiResp.ok) {
-      const txt = await openaiResp.text();
-      return NextResponse.json({ error: `OpenAI error ${openaiResp.status}: ${txt}` }, { status: 502 });
+    const cost = params.variations;
+    const chargedAt = Date.now();
+    const quota = await consumeQuota(limiter, client, cost, quotaLimits(), chargedAt);
+    if (!quota.allowed) {
+      return applyQuota(errorResponse(429, quotaRefusal(quota)), client, quota);
     }
-
-    const json = (await openaiResp.json()) as { data?: Array<{ b64_json?: string }> };
-    const b64 = json?.data?.[0]?.b64_json;
-    if (!b64) return NextResponse.json({ error: "OpenAI returned no image" }, { status: 502 });
-
-    const bytes = base64ToUint8Array(b64);
-
-    const key = `posters/${randomUUID()}.png`;
-    const { error: uploadError } = await supabase.storage.from(bucket).upload(key, bytes, {
-      contentType: "image/png",
-      upsert: true,
-    });
-    if (uploadError) {
-      return NextResponse.json({ error: `Supabase upload failed: ${uploadError.message}` }, { status: 500 });
-    }
-
-    const { data: pub } = supabase.storage.from(bucket).getPublicUrl(key);
-    const posterUrl = pub?.publicUrl;
-    if (!posterUrl) return NextResponse.json({ error: "Could not get public URL from Supabase" }, { status: 500 });
-
-    return NextResponse.json({ posterUrl });
+    const charge = quotaCharge(limiter, client, cost);
+
+    const jobs = getJobStore();
+    const job = jobs.create<GenerateResult>();
+
+    after(() =>
+      runJob(
+        jobs,
+        job,
+        async (report) => {
+          const result = await generateAndRecord({
+            image: file,
+            params,
+            provider,
+            storage,
+            repository,
+            ownerId,
+            childId,
+            timeoutMs,
+            report,
+            reroll: charge.reroll,
+          });
+          if (cache && key && result.recordId) {
+            await cache.set(key, result.recordId).catch((err) => console.error("Result cache update failed:", err));
+          }
+          return result;
+        },
+        (err) => {
+          const failure = describeGenerateError(err);
+          if (refundsQuota(failure)) void refundQuota(limiter, client, charge.charged(), chargedAt);
+          return failure;
+        }
+      )
+    );
+
+    return applyQuota(
+      NextResponse.json<GenerateResponse>({ jobId: job.id, status: job.status }, { status: 202 }),
+      client,
+      quota
+    );
   } catch (err: unknown) {
-    const msg =
-      (err as { name?: string })?.name === "AbortError"
-        ? "Timed out. Try again (image was likely too large/slow)."
-        : err instanceof Error
-        ? err.message
-        : String(err);
-    return NextResponse.json({ error: msg }, { status: 500 });
+    return NextResponse.json(describeGenerateError(err), { status: err instanceof UploadError ? err.status : 500 });
   }
 }
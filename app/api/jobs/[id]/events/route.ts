@@ -0,0 +1,57 @@
+// app/api/jobs/[id]/events/route.ts
+
+import { errorResponse } from "@/lib/errors";
+import { getJobStore, isFinished, Job } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Server-Sent Events: one "job" event per state change; the stream closes
+// once the job is done or failed.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const jobs = getJobStore();
+  const initial = jobs.get(id);
+  if (!initial) return errorResponse(404, { error: "Job not found", code: "not_found" });
+
+  const encoder = new TextEncoder();
+  // `close` ends the stream from our side; a client that went away has
+  // already cancelled it, and closing it again would throw.
+  let cleanup: (close: boolean) => void = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (job: Job) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(job)}\n\n`));
+        if (isFinished(job)) cleanup(true);
+      };
+      const unsubscribe = jobs.subscribe(id, send);
+      const keepAlive = setInterval(() => controller.enqueue(encoder.encode(": ping\n\n")), 15000);
+
+      cleanup = (close) => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(keepAlive);
+        if (close) controller.close();
+      };
+      req.signal.addEventListener("abort", () => cleanup(false));
+
+      // Re-read after subscribing so a change in between is not lost.
+      send(jobs.get(id) ?? initial);
+    },
+    cancel() {
+      cleanup(false);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
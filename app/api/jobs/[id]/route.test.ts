@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { getJobStore } from "@/lib/jobs";
+import { GET } from "./route";
+
+const read = (id: string) => GET(new Request(`http://localhost/api/jobs/${id}`), { params: Promise.resolve({ id }) });
+
+describe("GET /api/jobs/[id]", () => {
+  it("returns the job uncached", async () => {
+    const jobs = getJobStore();
+    const job = jobs.create<string>();
+    jobs.update<string>(job.id, { status: "running", stage: "generating", progress: 40 });
+
+    const res = await read(job.id);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Cache-Control")).toBe("no-store");
+    expect(await res.json()).toMatchObject({ id: job.id, status: "running", stage: "generating", progress: 40 });
+  });
+
+  it("carries the error envelope of a failed job", async () => {
+    const jobs = getJobStore();
+    const job = jobs.create();
+    jobs.update(job.id, { status: "failed", error: "The image service is busy", code: "provider_busy", retryable: true });
+
+    expect(await (await read(job.id)).json()).toMatchObject({
+      status: "failed",
+      error: "The image service is busy",
+      code: "provider_busy",
+      retryable: true,
+    });
+  });
+
+  it("returns 404 with an error envelope for an unknown job", async () => {
+    const res = await read("no-such-job");
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "Job not found", code: "not_found", retryable: false });
+  });
+});
@@ -0,0 +1,14 @@
+// app/api/jobs/[id]/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { getJobStore } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getJobStore().get(id);
+  if (!job) return errorResponse(404, { error: "Job not found", code: "not_found" });
+  return NextResponse.json(job, { headers: { "Cache-Control": "no-store" } });
+}
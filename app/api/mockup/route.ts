@@ -0,0 +1,68 @@
+// app/api/mockup/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { DEFAULT_MOCKUP_OPTIONS, isFrameId, MockupOptions, renderMockup } from "@/lib/mockup";
+import { isPaperFormat } from "@/lib/paper";
+import { getOwnedPosterRecord, getPosterRepository } from "@/lib/posters";
+import { identifyClient } from "@/lib/ratelimit";
+import { getStorage } from "@/lib/storage";
+import { readImageUpload, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+
+// Renders the poster framed on a wall above a sofa, to scale for the chosen
+// print size, as a PNG. Send the poster as `image` or the storage `key` of
+// one of the caller's generated posters.
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const file = form.get("image") ? await readImageUpload(form.get("image")) : null;
+    const key = (form.get("key") as string) || "";
+
+    const format = (form.get("format") as string) || DEFAULT_MOCKUP_OPTIONS.format;
+    if (!isPaperFormat(format)) {
+      return errorResponse(400, { error: `Unknown format "${format}"`, code: "invalid_param" });
+    }
+    const frame = (form.get("frame") as string) || DEFAULT_MOCKUP_OPTIONS.frame;
+    if (!isFrameId(frame)) {
+      return errorResponse(400, { error: `Unknown frame "${frame}"`, code: "invalid_param" });
+    }
+    const wall = (form.get("wall") as string) || DEFAULT_MOCKUP_OPTIONS.wall;
+    if (!/^#[0-9a-f]{6}$/i.test(wall)) {
+      return errorResponse(400, { error: "wall must be a #RRGGBB colour", code: "invalid_param" });
+    }
+    const matMm = Number(form.get("matMm") ?? 0);
+    if (!Number.isFinite(matMm) || matMm < 0 || matMm > 150) {
+      return errorResponse(400, { error: "matMm must be 0–150", code: "invalid_param" });
+    }
+
+    let poster: Uint8Array | null = null;
+    if (file) {
+      poster = new Uint8Array(await file.arrayBuffer());
+    } else if (key) {
+      const record = await getOwnedPosterRecord(getPosterRepository(), key, identifyClient(req).session);
+      poster = record && ((await getStorage().get(key))?.bytes ?? null);
+      if (!poster) return errorResponse(404, { error: "Poster not found", code: "not_found" });
+    }
+    if (!poster) return errorResponse(400, { error: "No image uploaded", code: "missing_image" });
+
+    const opts: MockupOptions = {
+      format,
+      orientation: (form.get("orientation") as string) === "landscape" ? "landscape" : "portrait",
+      frame,
+      mat: (form.get("mat") as string) !== "false",
+      matMm,
+      wall,
+    };
+    const png = await renderMockup(poster, opts);
+
+    return new NextResponse(Buffer.from(png), {
+      headers: { "Content-Type": "image/png", "Cache-Control": "no-store" },
+    });
+  } catch (err: unknown) {
+    if (err instanceof UploadError) return errorResponse(err.status, { error: err.message, code: err.code });
+    if (err instanceof RangeError) return errorResponse(400, { error: err.message, code: "invalid_param" });
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,27 @@
+// app/api/palette/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { MAX_PALETTE, MIN_PALETTE } from "@/lib/palettes";
+import { extractPalette } from "@/lib/quantize";
+import { readImageUpload, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+
+// Extracts a palette from an uploaded drawing: { colors: ["#RRGGBB", …] }.
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const count = Number((form.get("count") as string) || "5");
+    if (!Number.isInteger(count) || count < MIN_PALETTE || count > MAX_PALETTE) {
+      return errorResponse(400, { error: `count must be ${MIN_PALETTE}–${MAX_PALETTE}`, code: "invalid_param" });
+    }
+    const file = await readImageUpload(form.get("image"));
+
+    const colors = await extractPalette(new Uint8Array(await file.arrayBuffer()), count);
+    return NextResponse.json({ colors });
+  } catch (err: unknown) {
+    if (err instanceof UploadError) return errorResponse(err.status, { error: err.message, code: err.code });
+    return errorResponse(500, internalError(err));
+  }
+}
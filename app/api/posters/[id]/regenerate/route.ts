@@ -0,0 +1,97 @@
+// app/api/posters/[id]/regenerate/route.ts
+
+import { after, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/errors";
+import { generateAndRecord, generateCollageAndRecord } from "@/lib/gallery";
+import { describeGenerateError, GenerateResult, refundsQuota } from "@/lib/generate";
+import { GenerateResponse } from "@/lib/generate-schema";
+import { getJobStore, runJob } from "@/lib/jobs";
+import { getOwnedRecord, getPosterRepository } from "@/lib/posters";
+import { getImageProvider } from "@/lib/providers";
+import {
+  applyQuota,
+  consumeQuota,
+  getRateLimitStore,
+  identifyClient,
+  quotaCharge,
+  quotaLimits,
+  quotaRefusal,
+  refundQuota,
+} from "@/lib/ratelimit";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Runs a recorded generation (or collage) again from its original uploads
+// with the same settings. Only the record's owner may; anyone else gets a
+// 404. The result is a new record; returns a job id like /api/generate and is
+// charged to the quota the same way.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const provider = getImageProvider();
+    const storage = getStorage();
+    const repository = getPosterRepository();
+    const limiter = getRateLimitStore();
+
+    const { id } = await params;
+    const client = identifyClient(req);
+    const record = await getOwnedRecord(repository, id, client.session);
+    if (!record) return errorResponse(404, { error: "Poster not found", code: "not_found" });
+    const originals = await Promise.all(
+      (record.collage?.originalKeys ?? [record.originalKey]).map((key) => storage.get(key))
+    );
+    if (originals.some((o) => !o)) {
+      return errorResponse(404, { error: "Original drawing is missing", code: "not_found" });
+    }
+    const images = originals.map((o) => new Blob([new Uint8Array(o!.bytes)], { type: o!.contentType }));
+    const { collage } = record;
+
+    const cost = collage ? images.length : record.params.variations;
+    const chargedAt = Date.now();
+    const quota = await consumeQuota(limiter, client, cost, quotaLimits(), chargedAt);
+    if (!quota.allowed) {
+      return applyQuota(errorResponse(429, quotaRefusal(quota)), client, quota);
+    }
+    const charge = quotaCharge(limiter, client, cost);
+
+    const jobs = getJobStore();
+    const job = jobs.create<GenerateResult>();
+
+    after(() =>
+      runJob(
+        jobs,
+        job,
+        (report) => {
+          const options = {
+            params: record.params,
+            ownerId: record.ownerId,
+            childId: record.childId,
+            provider,
+            storage,
+            repository,
+            timeoutMs: (maxDuration - 5) * 1000,
+            report,
+            reroll: charge.reroll,
+          };
+          return collage
+            ? generateCollageAndRecord({ ...options, images, layout: collage.layout, output: collage.output })
+            : generateAndRecord({ ...options, image: images[0] });
+        },
+        (err) => {
+          const failure = describeGenerateError(err);
+          if (refundsQuota(failure)) void refundQuota(limiter, client, charge.charged(), chargedAt);
+          return failure;
+        }
+      )
+    );
+
+    return applyQuota(
+      NextResponse.json<GenerateResponse>({ jobId: job.id, status: job.status }, { status: 202 }),
+      client,
+      quota
+    );
+  } catch (err: unknown) {
+    return NextResponse.json(describeGenerateError(err), { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+// app/api/posters/[id]/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { deleteRecord, toRecordView } from "@/lib/gallery";
+import { getOwnedRecord, getPosterRepository } from "@/lib/posters";
+import { identifyClient } from "@/lib/ratelimit";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+// Only the session that made a record can read or delete it; anyone else gets
+// a 404.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const record = await getOwnedRecord(getPosterRepository(), id, identifyClient(req).session);
+    if (!record) return errorResponse(404, { error: "Poster not found", code: "not_found" });
+    return NextResponse.json(await toRecordView(getStorage(), record), { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
+
+// Deletes the record together with the original upload and every result file.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const repository = getPosterRepository();
+    const record = await getOwnedRecord(repository, id, identifyClient(req).session);
+    if (!record || !(await deleteRecord(repository, getStorage(), id))) {
+      return errorResponse(404, { error: "Poster not found", code: "not_found" });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
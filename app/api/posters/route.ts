@@ -0,0 +1,36 @@
+// app/api/posters/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { toRecordView } from "@/lib/gallery";
+import { DEFAULT_PAGE_SIZE, getPosterRepository, MAX_PAGE_SIZE } from "@/lib/posters";
+import { identifyClient } from "@/lib/ratelimit";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+// Lists the caller's recorded generations, newest first. Page with `limit`
+// and `offset`; `childId` shows one child's posters.
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const limit = Number(url.searchParams.get("limit") ?? DEFAULT_PAGE_SIZE);
+    const offset = Number(url.searchParams.get("offset") ?? 0);
+    const childId = url.searchParams.get("childId") || undefined;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return errorResponse(400, { error: `limit must be 1–${MAX_PAGE_SIZE}`, code: "invalid_param" });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return errorResponse(400, { error: "offset must be a non-negative integer", code: "invalid_param" });
+    }
+
+    const { session } = identifyClient(req);
+    if (!session) return NextResponse.json({ posters: [], total: 0 }, { headers: { "Cache-Control": "no-store" } });
+    const storage = getStorage();
+    const { records, total } = await getPosterRepository().list({ ownerId: session, limit, offset, childId });
+    const posters = await Promise.all(records.map((r) => toRecordView(storage, r)));
+    return NextResponse.json({ posters, total }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
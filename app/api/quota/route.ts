@@ -0,0 +1,19 @@
+// app/api/quota/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { applyQuota, getRateLimitStore, identifyClient, readQuota } from "@/lib/ratelimit";
+
+export const runtime = "nodejs";
+
+// The caller's daily poster quota: { limit, remaining, resetAt, perMinute }.
+// Also hands out the session cookie the quota is kept under.
+export async function GET(req: Request) {
+  try {
+    const client = identifyClient(req);
+    const quota = await readQuota(getRateLimitStore(), client);
+    return applyQuota(NextResponse.json(quota, { headers: { "Cache-Control": "no-store" } }), client, quota);
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,113 @@
+// app/api/refine/route.ts
+
+import { after, NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { addToRecord } from "@/lib/gallery";
+import { describeGenerateError, GenerateResult, refundsQuota } from "@/lib/generate";
+import { parseTypography } from "@/lib/generate-schema";
+import { getJobStore, runJob } from "@/lib/jobs";
+import { getOwnedPosterRecord, getPosterRepository, PosterRepository } from "@/lib/posters";
+import { getImageProvider, ImageProvider } from "@/lib/providers";
+import {
+  applyQuota,
+  consumeQuota,
+  getRateLimitStore,
+  identifyClient,
+  quotaLimits,
+  quotaRefusal,
+  RateLimitStore,
+  refundQuota,
+} from "@/lib/ratelimit";
+import { refinePoster } from "@/lib/refine";
+import { getStorage, StorageDriver } from "@/lib/storage";
+import { checkText, MAX_INSTRUCTION_LENGTH, MAX_TITLE_LENGTH } from "@/lib/text";
+import { readImageUpload, UploadError } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Refines an existing poster. Send the artwork's storage `artKey` and an
+// `instruction`; with a `mask` PNG (opaque = repaint) only that area changes.
+// The artwork must be one of the caller's; the result is added to its record.
+// Returns a job id like /api/generate.
+export async function POST(req: Request) {
+  try {
+    let provider: ImageProvider;
+    let storage: StorageDriver;
+    let repository: PosterRepository;
+    let limiter: RateLimitStore;
+    try {
+      provider = getImageProvider();
+      storage = getStorage();
+      repository = getPosterRepository();
+      limiter = getRateLimitStore();
+    } catch (err) {
+      return errorResponse(500, internalError(err));
+    }
+
+    const form = await req.formData();
+    const artKey = (form.get("artKey") as string) || "";
+    const instructionField = checkText((form.get("instruction") as string) || "", "instruction", MAX_INSTRUCTION_LENGTH);
+    const titleField = checkText((form.get("titleText") as string) || "", "titleText", MAX_TITLE_LENGTH);
+    const { value: typography, error: typographyError } = parseTypography(form);
+    const instruction = instructionField.value ?? "";
+    const titleText = titleField.value ?? "";
+
+    if (!artKey) return errorResponse(400, { error: "No artKey given", code: "invalid_param" });
+    if (typographyError) return NextResponse.json(typographyError, { status: 400 });
+    const textError = instructionField.error || titleField.error;
+    if (textError) return errorResponse(400, { error: textError, code: "invalid_param" });
+    if (!instruction) {
+      return errorResponse(400, { error: "Describe the change in instruction", code: "invalid_param" });
+    }
+
+    const client = identifyClient(req);
+    const record = await getOwnedPosterRecord(repository, artKey, client.session);
+    const art = record && (await storage.get(artKey));
+    if (!record || !art) return errorResponse(404, { error: "Poster not found", code: "not_found" });
+    const mask = form.get("mask") ? await readImageUpload(form.get("mask"), "mask") : null;
+    const maskBytes = mask ? new Uint8Array(await mask.arrayBuffer()) : undefined;
+
+    const cost = 1;
+    const chargedAt = Date.now();
+    const quota = await consumeQuota(limiter, client, cost, quotaLimits(), chargedAt);
+    if (!quota.allowed) {
+      return applyQuota(errorResponse(429, quotaRefusal(quota)), client, quota);
+    }
+
+    const jobs = getJobStore();
+    const job = jobs.create<GenerateResult>();
+
+    after(() =>
+      runJob(
+        jobs,
+        job,
+        async (report) =>
+          addToRecord(
+            repository,
+            record.id,
+            await refinePoster({
+              art: art.bytes,
+              mask: maskBytes,
+              instruction,
+              titleText,
+              typography,
+              provider,
+              storage,
+              timeoutMs: (maxDuration - 5) * 1000,
+              report,
+            })
+          ),
+        (err) => {
+          const failure = describeGenerateError(err);
+          if (refundsQuota(failure)) void refundQuota(limiter, client, cost, chargedAt);
+          return failure;
+        }
+      )
+    );
+
+    return applyQuota(NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 }), client, quota);
+  } catch (err: unknown) {
+    return NextResponse.json(describeGenerateError(err), { status: err instanceof UploadError ? err.status : 500 });
+  }
+}
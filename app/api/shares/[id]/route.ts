@@ -0,0 +1,39 @@
+// app/api/shares/[id]/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { identifyClient } from "@/lib/ratelimit";
+import { getShareRepository, revokeShare, siteOrigin, toShareView } from "@/lib/shares";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const share = await getShareRepository().get(id);
+    if (!share) return errorResponse(404, { error: "Share not found", code: "not_found" });
+    const view = toShareView(share, siteOrigin(req.headers), identifyClient(req).session);
+    return NextResponse.json(view, { headers: { "Cache-Control": "no-store" } });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
+
+// Revokes the link: the page and its images are gone at once. Only the
+// session that created the share may do this.
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const repository = getShareRepository();
+    const share = await repository.get(id);
+    if (!share) return errorResponse(404, { error: "Share not found", code: "not_found" });
+    if (identifyClient(req).session !== share.ownerId) {
+      return errorResponse(403, { error: "Only whoever shared this poster can stop sharing it", code: "forbidden" });
+    }
+    await revokeShare(repository, getStorage(), share);
+    return new NextResponse(null, { status: 204 });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,48 @@
+// app/api/shares/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { getOwnedPosterRecord, getPosterRepository } from "@/lib/posters";
+import { applySession, identifyClient, sessionId } from "@/lib/ratelimit";
+import { createShare, getShareRepository, siteOrigin, toShareView } from "@/lib/shares";
+import { getStorage } from "@/lib/storage";
+import { checkText, MAX_CAPTION_LENGTH, MAX_TITLE_LENGTH } from "@/lib/text";
+
+export const runtime = "nodejs";
+
+// Creates a public link to a finished poster and returns `201 ShareView`.
+// Send the storage `key` of one of the caller's generated posters, with the
+// `title` and `caption` shown on the page. The caller's session owns the
+// link and may revoke it.
+export async function POST(req: Request) {
+  try {
+    const form = await req.formData();
+    const key = (form.get("key") as string) || "";
+
+    const title = checkText((form.get("title") as string) || "", "title", MAX_TITLE_LENGTH);
+    if (title.error) return errorResponse(400, { error: title.error, code: "invalid_param" });
+    const caption = checkText((form.get("caption") as string) || "", "caption", MAX_CAPTION_LENGTH);
+    if (caption.error) return errorResponse(400, { error: caption.error, code: "invalid_param" });
+    if (!key) return errorResponse(400, { error: "No poster key given", code: "invalid_param" });
+
+    // Only the caller's generated posters; originals are never shared.
+    const client = identifyClient(req);
+    const storage = getStorage();
+    const record = await getOwnedPosterRecord(getPosterRepository(), key, client.session);
+    const poster = record && (await storage.get(key))?.bytes;
+    if (!poster) return errorResponse(404, { error: "Poster not found", code: "not_found" });
+
+    const owner = sessionId(client);
+    const share = await createShare({
+      repository: getShareRepository(),
+      storage,
+      poster,
+      ownerId: owner,
+      title: title.value ?? "",
+      caption: caption.value ?? "",
+    });
+    return applySession(NextResponse.json(toShareView(share, siteOrigin(req.headers), owner), { status: 201 }), client);
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
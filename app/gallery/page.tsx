@@ -0,0 +1,8 @@
+import PosterGallery from "../../components/PosterGallery";
+export default function GalleryPage() {
+  return (
+    <main>
+      <PosterGallery />
+    </main>
+  );
+}
@@ -0,0 +1,31 @@
+// app/p/[id]/[file]/route.ts
+
+import { NextResponse } from "next/server";
+import { errorResponse, internalError } from "@/lib/errors";
+import { getShareRepository } from "@/lib/shares";
+import { getStorage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+// The images of a shared poster: `poster.png` and the `preview.jpg` that
+// link previews use. Served from here rather than the storage URL, which may
+// be signed and expire. Short-lived caching, so a revoked link goes dark soon.
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string; file: string }> }) {
+  try {
+    const { id, file } = await params;
+    if (file !== "poster.png" && file !== "preview.jpg") {
+      return errorResponse(404, { error: "Not found", code: "not_found" });
+    }
+    const share = await getShareRepository().get(id);
+    const obj = share && (await getStorage().get(file === "poster.png" ? share.imageKey : share.previewKey));
+    if (!obj) return errorResponse(404, { error: "Not found", code: "not_found" });
+    return new NextResponse(Buffer.from(obj.bytes), {
+      headers: {
+        "Content-Type": file === "poster.png" ? "image/png" : "image/jpeg",
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  } catch (err: unknown) {
+    return errorResponse(500, internalError(err));
+  }
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import Link from "next/link";
+import { useI18n } from "../../../components/LocaleProvider";
+
+export default function SharedPosterNotFound() {
+  const { t } = useI18n();
+  return (
+    <main style={{ maxWidth: 720, margin: "0 auto", padding: 24, textAlign: "center", display: "grid", gap: 12 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 700, margin: 0 }}>{t.share.gone}</h1>
+      <p style={{ color: "#475569", margin: 0 }}>{t.share.goneHint}</p>
+      <Link href="/" style={{ color: "#0f172a", textDecoration: "underline", fontSize: 14 }}>
+        {t.share.makeYourOwn}
+      </Link>
+    </main>
+  );
+}
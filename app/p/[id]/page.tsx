@@ -0,0 +1,66 @@
+import type { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ShareActions from "../../../components/ShareActions";
+import { getMessages, LOCALE_COOKIE, Messages, pickLocale } from "@/lib/i18n";
+import { SESSION_COOKIE, verifySession } from "@/lib/ratelimit";
+import { getShareRepository, sharePath, siteOrigin, toShareView } from "@/lib/shares";
+
+export const runtime = "nodejs";
+
+type Props = { params: Promise<{ id: string }> };
+
+// In the visitor's language, picked like the root layout does.
+async function requestMessages(): Promise<Messages> {
+  return getMessages(pickLocale((await cookies()).get(LOCALE_COOKIE)?.value, (await headers()).get("accept-language")));
+}
+
+// Link previews: the poster as og:image / summary_large_image. Shared pages
+// aren't meant to be found through search engines.
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const share = await getShareRepository().get(id);
+  const t = await requestMessages();
+  if (!share) return { title: t.share.notFound, robots: { index: false } };
+  const title = share.title || t.share.fallbackTitle;
+  const description = share.caption || t.share.description;
+  const image = { url: sharePath(id, "preview.jpg"), width: share.width, height: share.height, alt: title };
+  return {
+    metadataBase: new URL(siteOrigin(await headers())),
+    title,
+    description,
+    robots: { index: false, follow: false },
+    openGraph: { type: "website", url: sharePath(id), siteName: "Kids Poster", title, description, images: [image] },
+    twitter: { card: "summary_large_image", title, description, images: [image] },
+  };
+}
+
+export default async function SharedPosterPage({ params }: Props) {
+  const { id } = await params;
+  const share = await getShareRepository().get(id);
+  if (!share) notFound();
+  const viewer = verifySession((await cookies()).get(SESSION_COOKIE)?.value);
+  const view = toShareView(share, siteOrigin(await headers()), viewer);
+  const t = await requestMessages();
+
+  return (
+    <main style={{ maxWidth: 720, margin: "0 auto", padding: 24, display: "grid", gap: 12, justifyItems: "center" }}>
+      <img
+        src={sharePath(id, "poster.png")}
+        alt={view.title || t.share.fallbackTitle}
+        style={{ width: "100%", maxHeight: "80vh", objectFit: "contain", borderRadius: 12, boxShadow: "0 8px 30px rgba(15,23,42,.15)" }}
+      />
+      {view.title && <h1 style={{ fontSize: 24, fontWeight: 700, margin: 0, textAlign: "center" }}>{view.title}</h1>}
+      {view.caption && <p style={{ color: "#475569", margin: 0, textAlign: "center" }}>{view.caption}</p>}
+      {view.owner && (
+        <div style={{ width: "100%" }}>
+          <ShareActions share={view} />
+        </div>
+      )}
+      <Link href="/" style={{ color: "#0f172a", textDecoration: "underline", fontSize: 14 }}>
+        {t.share.makeYourOwn}
+      </Link>
+    </main>
+  );
+}
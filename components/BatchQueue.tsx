@@ -0,0 +1,87 @@
+"use client";
+
+import React from "react";
+import { CheckCircle2, Clock, Download, Loader2, XCircle } from "lucide-react";
+import type { BatchItem, BatchResult } from "@/lib/batch/types";
+import { envelopeText } from "@/lib/i18n";
+import { useI18n } from "./LocaleProvider";
+
+type Props = {
+  files: File[];
+  batch: BatchResult | null;
+  // Finished batch jobs with posters; the drawings may have gone in several.
+  zips: string[];
+  onRemove?: (index: number) => void;
+};
+
+function StatusIcon({ item }: { item?: BatchItem }) {
+  if (!item || item.status === "queued") return <Clock size={14} color="#94a3b8" />;
+  if (item.status === "running") return <Loader2 size={14} className="spin" />;
+  if (item.status === "failed") return <XCircle size={14} color="#b91c1c" />;
+  return <CheckCircle2 size={14} color="#15803d" />;
+}
+
+// The drawings of a batch with their status, and a ZIP per finished batch job.
+export default function BatchQueue({ files, batch, zips, onRemove }: Props) {
+  const { t } = useI18n();
+  const done = batch?.items.filter((i) => i.status === "done").length ?? 0;
+  const failed = batch?.items.filter((i) => i.status === "failed").length ?? 0;
+
+  return (
+    <div style={{ border: "1px solid #e2e8f0", borderRadius: 12, padding: 12, background: "white", marginBottom: 18 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 8 }}>
+        <strong>{t.batch.drawings(files.length)}</strong>
+        {batch && (
+          <span style={{ color: "#64748b" }}>{t.batch.progress(done, failed)}</span>
+        )}
+        {zips.length > 0 && (
+          <span style={{ marginLeft: "auto", display: "inline-flex", gap: 12 }}>
+            {zips.map((id, i) => (
+              <a
+                key={id}
+                href={`/api/batch/${id}/zip`}
+                style={{ display: "inline-flex", alignItems: "center", gap: 6, color: "#0f172a" }}
+              >
+                <Download size={16} /> {zips.length > 1 ? t.batch.zipPart(i + 1, zips.length) : t.batch.zip}
+              </a>
+            ))}
+          </span>
+        )}
+      </div>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(140px, 1fr))", gap: 8, maxHeight: 360, overflowY: "auto" }}>
+        {files.map((f, i) => {
+          const item = batch?.items[i];
+          const poster = item?.posters?.[0];
+          return (
+            <div key={`${f.name}-${i}`} style={{ border: "1px solid #f1f5f9", borderRadius: 8, padding: 6, fontSize: 12 }}>
+              {poster ? (
+                <img src={poster.posterUrl} alt={f.name} style={{ width: "100%", height: 100, objectFit: "contain" }} />
+              ) : (
+                <div style={{ height: 100, display: "grid", placeItems: "center", color: "#94a3b8" }}>{i + 1}</div>
+              )}
+              <div style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                <StatusIcon item={item} />
+                <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={f.name}>
+                  {f.name}
+                </span>
+                {!batch && onRemove && (
+                  <button onClick={() => onRemove(i)} title={t.batch.remove} style={{ marginLeft: "auto", padding: "0 4px" }}>
+                    ×
+                  </button>
+                )}
+              </div>
+              {item?.status === "running" && (
+                <div style={{ height: 4, background: "#e2e8f0", borderRadius: 999, marginTop: 4 }}>
+                  <div style={{ width: `${item.progress}%`, height: "100%", background: "#0f172a", borderRadius: 999 }} />
+                </div>
+              )}
+              {item?.error && (
+                <div style={{ color: "#b91c1c" }}>{item.code ? envelopeText(t, { error: item.error, code: item.code }) : item.error}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
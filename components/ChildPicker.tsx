@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { UserRound, Trash2, Star } from "lucide-react";
+import type { Child } from "@/lib/children/types";
+import { ApiError, readErrorEnvelope } from "@/lib/errors";
+import { errorText } from "@/lib/i18n";
+import type { StyleId } from "@/lib/styles";
+import { useI18n } from "./LocaleProvider";
+
+type Props = {
+  value: string;
+  onChange: (child: Child | null) => void;
+  // Current controls, saved as the child's favourites on request
+  style: StyleId;
+  palette: string[];
+  onError?: (message: string) => void;
+};
+
+async function send<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
+
+// Select, create or remove the child a drawing belongs to.
+export default function ChildPicker({ value, onChange, style, palette, onError = () => {} }: Props) {
+  const { t, intl } = useI18n();
+  const [children, setChildren] = useState<Child[]>([]);
+  const [adding, setAdding] = useState<boolean>(false);
+  const [name, setName] = useState<string>("");
+  const [birthDate, setBirthDate] = useState<string>("");
+  const [withFavourites, setWithFavourites] = useState<boolean>(true);
+  const selected = children.find((c) => c.id === value);
+
+  useEffect(() => {
+    send<{ children: Child[] }>("/api/children", "GET")
+      .then((data) => setChildren(data.children))
+      .catch(() => setChildren([]));
+  }, []);
+
+  async function create() {
+    try {
+      const child = await send<Child>("/api/children", "POST", {
+        name,
+        birthDate,
+        ...(withFavourites ? { style, palette } : {}),
+      });
+      setChildren((prev) => [...prev, child].sort((a, b) => a.name.localeCompare(b.name, intl)));
+      setAdding(false);
+      setName("");
+      setBirthDate("");
+      onChange(child);
+    } catch (err: unknown) {
+      onError(t.children.saveFailed(errorText(t, err)));
+    }
+  }
+
+  async function saveFavourites() {
+    if (!selected) return;
+    try {
+      const child = await send<Child>(`/api/children/${selected.id}`, "PATCH", { style, palette });
+      setChildren((prev) => prev.map((c) => (c.id === child.id ? child : c)));
+    } catch (err: unknown) {
+      onError(t.children.saveFailed(errorText(t, err)));
+    }
+  }
+
+  async function remove() {
+    if (!selected || !window.confirm(t.children.confirmRemove(selected.name))) return;
+    try {
+      await send<void>(`/api/children/${selected.id}`, "DELETE");
+      setChildren((prev) => prev.filter((c) => c.id !== selected.id));
+      onChange(null);
+    } catch (err: unknown) {
+      onError(t.children.removeFailed(errorText(t, err)));
+    }
+  }
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 6, flexWrap: "wrap" }}>
+      <UserRound size={16} />
+      <select
+        value={adding ? "new" : value}
+        onChange={(e) => {
+          if (e.target.value === "new") {
+            setAdding(true);
+            return;
+          }
+          setAdding(false);
+          onChange(children.find((c) => c.id === e.target.value) ?? null);
+        }}
+      >
+        <option value="">{t.children.none}</option>
+        {children.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+          </option>
+        ))}
+        <option value="new">{t.children.add}</option>
+      </select>
+
+      {adding ? (
+        <>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t.children.name}
+            style={{ padding: "4px 8px", borderRadius: 6, border: "1px solid #cbd5e1", width: 120 }}
+          />
+          <input
+            type="date"
+            value={birthDate}
+            onChange={(e) => setBirthDate(e.target.value)}
+            title={t.children.birthDate}
+            style={{ padding: "4px 8px", borderRadius: 6, border: "1px solid #cbd5e1" }}
+          />
+          <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+            <input type="checkbox" checked={withFavourites} onChange={(e) => setWithFavourites(e.target.checked)} />
+            {t.children.saveFavourites}
+          </label>
+          <button onClick={() => void create()} disabled={!name.trim() || !birthDate}>
+            {t.children.addButton}
+          </button>
+          <button onClick={() => setAdding(false)}>{t.children.cancel}</button>
+        </>
+      ) : (
+        selected && (
+          <>
+            <button onClick={() => void saveFavourites()} title={t.children.favouritesTitle}>
+              <Star size={14} />
+            </button>
+            <button onClick={() => void remove()} title={t.children.removeTitle}>
+              <Trash2 size={14} />
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+}
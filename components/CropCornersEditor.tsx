@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type { Point, Quad } from "@/lib/cleanup";
+import { useI18n } from "./LocaleProvider";
+
+type Props = {
+  src: string;
+  corners: Quad;
+  onChange: (corners: Quad) => void;
+  maxHeight?: number;
+};
+
+// Shows an image with four draggable corner handles (normalized coordinates).
+export default function CropCornersEditor({ src, corners, onChange, maxHeight = 520 }: Props) {
+  const { t } = useI18n();
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  function toPoint(e: React.PointerEvent): Point {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return [clamp((e.clientX - rect.left) / rect.width), clamp((e.clientY - rect.top) / rect.height)];
+  }
+
+  function onPointerMove(e: React.PointerEvent) {
+    if (dragging === null) return;
+    const next = corners.map((c, i) => (i === dragging ? toPoint(e) : c)) as Quad;
+    onChange(next);
+  }
+
+  return (
+    <div style={{ position: "relative", display: "inline-block", lineHeight: 0 }}>
+      <img src={src} alt={t.upload.original} style={{ maxWidth: "100%", maxHeight, display: "block" }} />
+      <svg
+        ref={svgRef}
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        onPointerMove={onPointerMove}
+        onPointerUp={() => setDragging(null)}
+        onPointerLeave={() => setDragging(null)}
+        style={{ position: "absolute", inset: 0, width: "100%", height: "100%", touchAction: "none" }}
+      >
+        <polygon
+          points={corners.map(([x, y]) => `${x},${y}`).join(" ")}
+          fill="rgba(15,23,42,0.12)"
+          stroke="#0f172a"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {corners.map(([x, y], i) => (
+          <ellipse
+            key={i}
+            cx={x}
+            cy={y}
+            rx={0.025}
+            ry={0.025}
+            fill="white"
+            stroke="#0f172a"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            style={{ cursor: "grab" }}
+            onPointerDown={(e) => {
+              (e.target as Element).setPointerCapture?.(e.pointerId);
+              setDragging(i);
+            }}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -1,11 +1,49 @@
 "use client";
 
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { motion, AnimatePresence } from "framer-motion";
-import { Wand2, Download, Sparkles, Paintbrush, Loader2 } from "lucide-react";
+import { Wand2, Download, Sparkles, Paintbrush, Loader2, RefreshCw, X, Printer, Crop, Brush, Undo2, Columns2, Images, Sofa, Share2 } from "lucide-react";
+import BatchQueue from "./BatchQueue";
+import ChildPicker from "./ChildPicker";
+import CropCornersEditor from "./CropCornersEditor";
+import RegionMaskEditor from "./RegionMaskEditor";
+import LocaleSwitcher from "./LocaleSwitcher";
+import { useI18n } from "./LocaleProvider";
+import RoomMockup from "./RoomMockup";
+import ShareActions from "./ShareActions";
+import { readDroppedFiles } from "@/lib/batch/client";
+import { BatchItem, BatchResult, MAX_BATCH_ITEMS } from "@/lib/batch/types";
+import { childCaption } from "@/lib/children/caption";
+import { ApiError, readErrorEnvelope } from "@/lib/errors";
+import { startBatch, startCollage, startGeneration, startJob } from "@/lib/generate-client";
+import { encodeTypography, FidelityMode, GenerateResponse, PosterSettings } from "@/lib/generate-schema";
+import type { Child } from "@/lib/children/types";
+import type { Quad } from "@/lib/cleanup";
+import {
+  checkPieceCount,
+  COLLAGE_LAYOUTS,
+  COLLAGE_OUTPUTS,
+  CollageLayout,
+  CollageOutput,
+  MAX_PIECES,
+} from "@/lib/collage-layouts";
+import { jobError, waitForJob } from "@/lib/jobs/client";
+import type { GenerateResult, PosterResult } from "@/lib/generate";
+import { addVersion, describeVersion, findVersion, lineage, Version, VersionParams, versionLabel } from "@/lib/history";
+import { errorText } from "@/lib/i18n";
+import { ExportOutput, Orientation, PAPER_FORMATS, PaperFormat } from "@/lib/paper";
+import { MAX_PALETTE, MIN_PALETTE, PALETTE_PRESETS, PalettePresetId } from "@/lib/palettes";
+import { QuotaError } from "@/lib/ratelimit/client";
+import type { QuotaStatus } from "@/lib/ratelimit/types";
+import { createShare, passOnLink } from "@/lib/shares/client";
+import type { ShareView } from "@/lib/shares/types";
+import { DEFAULT_STYLE, STYLE_IDS, STYLE_PRESETS, StyleId } from "@/lib/styles";
+import { MAX_CAPTION_LENGTH, MAX_INSTRUCTION_LENGTH, MAX_TITLE_LENGTH } from "@/lib/text";
+import { TITLE_FONTS, TITLE_LAYOUTS, TitleFont, TitleLayout, Typography } from "@/lib/title-layouts";
 
-type StyleOption = "Matisse-esque" | "Bauhaus" | "Mid-century" | "Minimalist";
-type GenerateResponse = { posterUrl?: string; error?: string };
+// A fixed date for the caption example, so server and browser render the same text.
+const EXAMPLE_DATE = new Date(2026, 9, 1);
 
 // Downscale an image file in-browser to speed uploads & generation.
 async function downscaleImage(file: File, maxSide = 1024, quality = 0.8): Promise<File> {
@@ -43,184 +81,657 @@ async function downscaleImage(file: File, maxSide = 1024, quality = 0.8): Promis
   }
 }
 
-// Draw a clean title locally (crisper and more reliable than AI-rendered text)
-async function overlayTitle(posterUrl: string, title: string): Promise<string> {
-  if (!title.trim()) return posterUrl;
-  const img = new Image();
-  img.crossOrigin = "anonymous";
-  img.src = posterUrl;
-  await img.decode();
-
-  const padding = 48;
-  const titleBox = 140; // space for title bar
-  const canvas = document.createElement("canvas");
-  canvas.width = img.width;
-  canvas.height = img.height + titleBox;
-  const ctx = canvas.getContext("2d")!;
-  ctx.fillStyle = "#ffffff";
-  ctx.fillRect(0, 0, canvas.width, canvas.height);
-  ctx.drawImage(img, 0, 0, img.width, img.height);
-
-  ctx.fillStyle = "#111827";
-  const fontSize = Math.max(20, Math.round(canvas.width * 0.035));
-  ctx.font = `600 ${fontSize}px ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto`;
-  ctx.textAlign = "center";
-  ctx.textBaseline = "middle";
-  ctx.fillText(title.trim(), canvas.width / 2, img.height + titleBox / 2);
-
-  const blob = await new Promise<Blob | null>((resolve) =>
-    canvas.toBlob(resolve, "image/png")
-  );
-  if (!blob) return posterUrl;
-  return URL.createObjectURL(blob);
-}
-
 export default function KidsPosterMVP() {
+  const { t, locale, intl } = useI18n();
   const [origFile, setOrigFile] = useState<File | null>(null);
   const [sendFile, setSendFile] = useState<File | null>(null);
-  const [posterUrl, setPosterUrl] = useState<string>("");
 
-  const [style, setStyle] = useState<StyleOption>("Matisse-esque");
-  const [accent, setAccent] = useState<string>("#E63946");
-  const [allowShapes, setAllowShapes] = useState<boolean>(true);
+  // Several drawings at once become a collage or matched set
+  const [collageFiles, setCollageFiles] = useState<File[]>([]);
+  const [collageLayout, setCollageLayout] = useState<CollageLayout>("grid");
+  const [collageOutput, setCollageOutput] = useState<CollageOutput>("poster");
+  const collageMode = collageFiles.length > 0;
+  const collageUrls = useMemo(() => collageFiles.map((f) => URL.createObjectURL(f)), [collageFiles]);
+  useEffect(() => () => collageUrls.forEach((u) => URL.revokeObjectURL(u)), [collageUrls]);
+
+  // Batch mode: one poster per drawing, same settings for all
+  const [batchMode, setBatchMode] = useState<boolean>(false);
+  const [batchFiles, setBatchFiles] = useState<File[]>([]);
+  const [batch, setBatch] = useState<BatchResult | null>(null);
+  // Finished batch jobs with posters, one ZIP each
+  const [batchZips, setBatchZips] = useState<string[]>([]);
+
+  // Photo cleanup: `photoFile` is the (moderately downscaled) photo the paper
+  // corners refer to; `cleaned` is set once the straightened version is in use.
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [corners, setCorners] = useState<Quad | null>(null);
+  const [cleanupEnabled, setCleanupEnabled] = useState<boolean>(true);
+  const [cleaned, setCleaned] = useState<File | null>(null);
+  const [cleaning, setCleaning] = useState<boolean>(false);
+  const photoUrl = useMemo(() => (photoFile ? URL.createObjectURL(photoFile) : ""), [photoFile]);
+  const cleanedUrl = useMemo(() => (cleaned ? URL.createObjectURL(cleaned) : ""), [cleaned]);
+  useEffect(() => () => { if (photoUrl) URL.revokeObjectURL(photoUrl); }, [photoUrl]);
+  useEffect(() => () => { if (cleanedUrl) URL.revokeObjectURL(cleanedUrl); }, [cleanedUrl]);
+  // One entry per variation of the latest generation; `rejected` marks the
+  // ones "Regenerate rejected" will replace.
+  const [posters, setPosters] = useState<PosterResult[]>([]);
+  const [rejected, setRejected] = useState<boolean[]>([]);
+  const [variations, setVariations] = useState<number>(1);
+  const [fidelityMode, setFidelityMode] = useState<FidelityMode>("warn");
+
+  // Every variation and refinement, kept as a branching history. `currentId` is
+  // the version shown, downloaded and refined; `compareId` is shown beside it.
+  const [history, setHistory] = useState<Version[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const currentVersion = findVersion(history, currentId);
+  const compareVersion = compareId !== currentId ? findVersion(history, compareId) : undefined;
+  const current = currentVersion?.poster;
+  const posterUrl = current?.posterUrl ?? "";
+  // The variation the current version descends from
+  const rootId = lineage(history, currentId)[0]?.id;
+  const selected = posters.findIndex((p) => p.key === rootId);
+
+  // Refinement: an instruction for the whole poster or, in edit mode, only the painted area
+  const [editing, setEditing] = useState<boolean>(false);
+  const [mask, setMask] = useState<Blob | null>(null);
+  const [instruction, setInstruction] = useState<string>("");
+  const rejectedCount = rejected.filter(Boolean).length;
+
+  const [style, setStyle] = useState<StyleId>(DEFAULT_STYLE);
+  // Full palette; the first colour doubles as the accent.
+  // `paletteSource` says where it came from so style changes only override style defaults.
+  const [palette, setPalette] = useState<string[]>([...STYLE_PRESETS[DEFAULT_STYLE].palette]);
+  const [paletteSource, setPaletteSource] = useState<"style" | "drawing" | "custom" | PalettePresetId>("style");
+  const [enforcePalette, setEnforcePalette] = useState<boolean>(false);
+  const [allowShapes, setAllowShapes] = useState<boolean>(STYLE_PRESETS[DEFAULT_STYLE].allowShapes);
 
   const [titleText, setTitleText] = useState<string>("");
   const [aiText, setAiText] = useState<boolean>(false);
   const [overlayCleanText, setOverlayCleanText] = useState<boolean>(true);
+  const [titleLayout, setTitleLayout] = useState<TitleLayout>("bottom-bar");
+  const [titleFont, setTitleFont] = useState<TitleFont>("fredoka");
+  const [captionText, setCaptionText] = useState<string>("");
 
-  // Detect if running on Vercel; default to fast mode there only
-  const isVercelHost =
-    typeof window !== "undefined" && window.location.hostname.endsWith(".vercel.app");
-  const [fastMode, setFastMode] = useState<boolean>(isVercelHost);
+  // The child the drawing belongs to; their favourites pre-fill the controls.
+  // While `captionChild` is set the caption is filled in for them, in the
+  // current language, until the user edits it.
+  const [childId, setChildId] = useState<string>("");
+  const [captionChild, setCaptionChild] = useState<Child | null>(null);
+  const caption = captionChild ? childCaption(captionChild, locale) : captionText;
+
+  const [fastMode, setFastMode] = useState<boolean>(false);
+  // The last generation was answered from the result cache
+  const [fromCache, setFromCache] = useState<boolean>(false);
+  // The client's daily poster quota, from /api/quota and every generate response
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  useEffect(() => {
+    fetch("/api/quota", { cache: "no-store" })
+      .then((res) => res.json() as Promise<QuotaStatus>)
+      .then((q) => setQuota(q.limit === null ? null : q))
+      .catch(() => setQuota(null));
+  }, []);
+
+  // Print export settings
+  const [paperFormat, setPaperFormat] = useState<PaperFormat>("A3");
+  const [orientation, setOrientation] = useState<Orientation>("portrait");
+  const [marginMm, setMarginMm] = useState<number>(0);
+  const [bleedMm, setBleedMm] = useState<number>(3);
+  const [exportOutput, setExportOutput] = useState<ExportOutput>("pdf");
+  const [exporting, setExporting] = useState<boolean>(false);
+  // Show the poster framed on a wall instead of on its own
+  const [mockup, setMockup] = useState<boolean>(false);
+
+  // Share links made this session, by poster key.
+  const [shares, setShares] = useState<Record<string, ShareView>>({});
+  const [sharing, setSharing] = useState<boolean>(false);
+  const share = current ? shares[current.key] : undefined;
 
   const [loading, setLoading] = useState<boolean>(false);
-  const [message, setMessage] = useState<string>("");
-
-  // Fun rotating statuses during generation
-  const funSteps = useMemo(
-    () => [
-      "Warming up crayons…",
-      "Adding colors…",
-      "Consulting fairies…",
-      "Balancing shapes…",
-      "Smoothing paper texture…",
-      "Respecting original lines…",
-      "Tuning palette harmony…",
-    ],
-    []
-  );
-  const [stepIndex, setStepIndex] = useState(0);
-  const intervalRef = useRef<number | null>(null);
+  const [message, setMessageText] = useState<string>("");
+  // Failures and warnings are shown in red
+  const [messageIsError, setMessageIsError] = useState<boolean>(false);
+  const setMessage = useCallback((text: string, error = false) => {
+    setMessageText(text);
+    setMessageIsError(error);
+  }, []);
+  // For child components; stable so it can sit in their effect dependencies
+  const reportError = useCallback((text: string) => setMessage(text, true), [setMessage]);
+  // Repeats the last generation or refine; only set when its error was retryable
+  const [retry, setRetry] = useState<(() => void) | null>(null);
 
-  useEffect(() => {
-    if (loading) {
-      setStepIndex(0);
-      intervalRef.current = window.setInterval(() => {
-        setStepIndex((i) => (i + 1) % funSteps.length);
-      }, 1200);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    }
-  }, [loading, funSteps.length]);
+  // Real pipeline stage and progress reported by the generation job
+  const [stage, setStage] = useState<string>("queued");
+  const [progress, setProgress] = useState<number>(0);
 
   const pickFile = useCallback(async (f?: File | null) => {
     if (!f) return;
     if (!f.type?.startsWith("image/")) {
-      setMessage("Please choose a PNG or JPG image.");
+      setMessage(t.upload.notAnImage, true);
       return;
     }
-    setPosterUrl("");
-    setMessage("Preparing image…");
+    setPosters([]);
+    setRejected([]);
+    setHistory([]);
+    setCurrentId(null);
+    setCompareId(null);
+    setEditing(false);
+    setMessage(t.upload.preparingImage);
+    setCollageFiles([]);
+    setBatchFiles([]);
+    setBatch(null);
     setOrigFile(f);
+    setCorners(null);
+    setCleaned(null);
     try {
-      const downsized = await downscaleImage(f, 1024, 0.8);
+      const photo = await downscaleImage(f, 2048, 0.85);
+      const downsized = await downscaleImage(photo, 1024, 0.8);
+      setPhotoFile(photo);
       setSendFile(downsized);
-      setMessage(
-        `Selected: ${f.name} → sending ${Math.round((downsized.size || 0) / 1024)} KB`
-      );
+      setMessage(t.upload.selectedSending(f.name, Math.round((downsized.size || 0) / 1024)));
     } catch {
+      setPhotoFile(f);
       setSendFile(f);
-      setMessage(`Selected: ${f.name}`);
+      setMessage(t.upload.selected(f.name));
     }
-  }, []);
+  }, [t, setMessage]);
+
+  // One file is a single poster; several start a collage. In batch mode, or
+  // with more drawings than a collage takes, every file gets its own poster.
+  const pickFiles = useCallback(
+    async (list: File[], asBatch = batchMode) => {
+      const files = list.filter((f) => f.type?.startsWith("image/"));
+      if (asBatch || files.length > MAX_PIECES) {
+        setBatchMode(true);
+        setCollageFiles([]);
+        setOrigFile(null);
+        setPhotoFile(null);
+        setSendFile(null);
+        setBatch(null);
+        setBatchZips([]);
+        setMessage(t.upload.preparingDrawings);
+        setBatchFiles(await Promise.all(files.map((f) => downscaleImage(f, 1024, 0.8).catch(() => f))));
+        setMessage(t.upload.selectedBatch(files.length));
+        return;
+      }
+      if (files.length <= 1) {
+        void pickFile(files[0] ?? list[0]);
+        return;
+      }
+      const pieces = files.slice(0, MAX_PIECES);
+      setPosters([]);
+      setRejected([]);
+      setHistory([]);
+      setCurrentId(null);
+      setCompareId(null);
+      setEditing(false);
+      setOrigFile(null);
+      setPhotoFile(null);
+      setSendFile(null);
+      setCleaned(null);
+      setCorners(null);
+      setBatchFiles([]);
+      setBatch(null);
+      setMessage(t.upload.preparingDrawings);
+      setCollageFiles(await Promise.all(pieces.map((f) => downscaleImage(f, 1024, 0.8).catch(() => f))));
+      setCollageLayout(pieces.length === 2 ? "diptych" : pieces.length === 3 ? "triptych" : "grid");
+      setMessage(t.upload.selectedCollage(pieces.length, files.length > MAX_PIECES ? MAX_PIECES : null));
+    },
+    [pickFile, batchMode, t, setMessage]
+  );
+
+  // Switching mode keeps the chosen drawings.
+  function toggleBatchMode(on: boolean) {
+    setBatchMode(on);
+    if (on && (collageFiles.length || sendFile)) void pickFiles(collageFiles.length ? collageFiles : [sendFile!], true);
+    if (!on && batchFiles.length) void pickFiles(batchFiles.slice(0, MAX_PIECES), false);
+  }
+
+  function removeBatchItem(i: number) {
+    setBatchFiles((files) => files.filter((_, j) => j !== i));
+  }
+
+  function removeCollagePiece(i: number) {
+    const next = collageFiles.filter((_, j) => j !== i);
+    if (next.length === 1) {
+      void pickFile(next[0]);
+      return;
+    }
+    setCollageFiles(next);
+    if (checkPieceCount(collageLayout, next.length)) setCollageLayout("grid");
+  }
+
+  // Suggest paper corners for a freshly picked photo
+  useEffect(() => {
+    if (!photoFile || !cleanupEnabled || corners) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const body = new FormData();
+        body.append("image", photoFile);
+        const res = await fetch("/api/cleanup/detect", { method: "POST", body });
+        const data = (await res.json()) as { corners?: Quad };
+        if (!cancelled && res.ok && data.corners) setCorners(data.corners);
+      } catch {
+        // Detection is a convenience; the user can still generate as-is.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [photoFile, cleanupEnabled, corners]);
+
+  async function applyCleanup() {
+    if (!photoFile || !corners) return;
+    setCleaning(true);
+    setMessage(t.cleanup.working);
+    try {
+      const body = new FormData();
+      body.append("image", photoFile);
+      body.append("corners", JSON.stringify(corners));
+      const res = await fetch("/api/cleanup", { method: "POST", body });
+      if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+      const file = new File([await res.blob()], "cleaned.jpg", { type: "image/jpeg" });
+      setCleaned(file);
+      setSendFile(await downscaleImage(file, 1024, 0.8));
+      setMessage(t.cleanup.done);
+    } catch (err: unknown) {
+      setMessage(t.cleanup.failed(errorText(t, err)), true);
+    } finally {
+      setCleaning(false);
+    }
+  }
+
+  async function undoCleanup() {
+    setCleaned(null);
+    if (photoFile) setSendFile(await downscaleImage(photoFile, 1024, 0.8));
+  }
 
   function onDragOver(e: React.DragEvent) {
     e.preventDefault();
   }
   function onDrop(e: React.DragEvent) {
     e.preventDefault();
-    const f = e.dataTransfer.files?.[0] ?? null;
-    void pickFile(f);
+    void readDroppedFiles(e.dataTransfer).then((files) => pickFiles(files));
   }
 
-  function downloadPoster() {
-    if (!posterUrl) return;
+  function saveAs(href: string, filename: string) {
     const a = document.createElement("a");
-    a.href = posterUrl;
-    a.download = "kids-poster.png";
+    a.href = href;
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     a.remove();
   }
 
-  async function handleGenerate() {
-    if (!sendFile) {
-      setMessage("Select an image first.");
+  function downloadPoster() {
+    if (!posterUrl) return;
+    saveAs(posterUrl, "kids-poster.png");
+  }
+
+  // Publish the poster shown (title included) at /p/[id], then hand the link
+  // to the share sheet or clipboard.
+  async function sharePoster() {
+    if (!current) return;
+    setSharing(true);
+    try {
+      const link =
+        share ?? (await createShare({ key: current.key, title: titleText, caption: overlayCleanText ? caption : "" }));
+      setShares((prev) => ({ ...prev, [current.key]: link }));
+      const how = await passOnLink(link).catch(() => null);
+      setMessage(how === "copied" ? t.share.copied : t.share.shared);
+    } catch (err: unknown) {
+      setMessage(t.share.failed(errorText(t, err)), true);
+    } finally {
+      setSharing(false);
+    }
+  }
+
+  // Send the chosen (title-overlaid) poster to the server for a print-size render.
+  async function exportPoster() {
+    if (!posterUrl) return;
+    setExporting(true);
+    setMessage(t.print.preparing(PAPER_FORMATS[paperFormat].label, exportOutput.toUpperCase()));
+    try {
+      const poster = await (await fetch(posterUrl)).blob();
+      const body = new FormData();
+      body.append("image", poster, "poster.png");
+      body.append("format", paperFormat);
+      body.append("orientation", orientation);
+      body.append("marginMm", String(marginMm));
+      body.append("bleedMm", String(bleedMm));
+      body.append("output", exportOutput);
+
+      const res = await fetch("/api/export", { method: "POST", body });
+      if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+      const url = URL.createObjectURL(await res.blob());
+      saveAs(url, `kids-poster-${paperFormat}.${exportOutput}`);
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+      setMessage(t.print.ready);
+    } catch (err: unknown) {
+      setMessage(t.print.failed(errorText(t, err)), true);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  // Switching style resets shapes (and a style-default palette) to that preset's defaults
+  function chooseStyle(id: StyleId) {
+    setStyle(id);
+    if (paletteSource === "style") setPalette([...STYLE_PRESETS[id].palette]);
+    setAllowShapes(STYLE_PRESETS[id].allowShapes);
+  }
+
+  function chooseChild(child: Child | null) {
+    setChildId(child?.id ?? "");
+    if (!caption || captionChild) {
+      setCaptionChild(child);
+      setCaptionText("");
+    }
+    if (!child) return;
+    if (child.style) {
+      setStyle(child.style);
+      setAllowShapes(STYLE_PRESETS[child.style].allowShapes);
+      if (!child.palette && paletteSource === "style") setPalette([...STYLE_PRESETS[child.style].palette]);
+    }
+    if (child.palette) {
+      setPalette([...child.palette]);
+      setPaletteSource("custom");
+    }
+  }
+
+  async function choosePaletteSource(source: string) {
+    if (source === "style") {
+      setPalette([...STYLE_PRESETS[style].palette]);
+    } else if (source === "drawing") {
+      if (!sendFile) {
+        setMessage(t.upload.selectFirst);
+        return;
+      }
+      try {
+        const body = new FormData();
+        body.append("image", sendFile);
+        body.append("count", String(Math.max(MIN_PALETTE, Math.min(MAX_PALETTE, palette.length))));
+        const res = await fetch("/api/palette", { method: "POST", body });
+        if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+        setPalette(((await res.json()) as { colors: string[] }).colors);
+      } catch (err: unknown) {
+        setMessage(t.controls.paletteFailed(errorText(t, err)), true);
+        return;
+      }
+    } else if (source in PALETTE_PRESETS) {
+      setPalette([...PALETTE_PRESETS[source as PalettePresetId].colors]);
+    }
+    setPaletteSource(source as typeof paletteSource);
+  }
+
+  function setSwatch(i: number, color: string) {
+    setPalette((p) => p.map((c, j) => (j === i ? color.toUpperCase() : c)));
+    setPaletteSource("custom");
+  }
+
+  function toggleRejected(i: number) {
+    setRejected((r) => r.map((v, j) => (j === i ? !v : v)));
+  }
+
+  // Follow a started generation/refine job to the resulting posters.
+  async function runPosterJob(start: Promise<GenerateResponse>): Promise<GenerateResult> {
+    const started = await start;
+    if (started.result) return started.result;
+    const job = await waitForJob<GenerateResult>(started.jobId, (j) => {
+      setStage(j.status === "queued" ? "queued" : j.stage || "preparing");
+      setProgress(j.progress);
+    });
+    if (job.status === "failed") throw jobError(job);
+    if (!job.result?.posters?.length) throw new Error(t.generate.noPosters);
+    return job.result;
+  }
+
+  // Queue every batch drawing on the server with the current settings and
+  // follow the per-drawing status until all are done. The drawings go in as
+  // many batch jobs in turn as it takes: MAX_BATCH_ITEMS at a time, or fewer
+  // when the server says it takes fewer. `from`, `earlier` and `earlierZips`
+  // resume the queue at the job that failed.
+  async function handleBatch(from = 0, earlier: BatchItem[] = [], earlierZips: string[] = []) {
+    if (!batchFiles.length) {
+      setMessage(t.upload.selectDrawingsFirst);
       return;
     }
     setLoading(true);
-    setPosterUrl("");
-    setMessage("Generating…");
+    setRetry(null);
+    if (!from) setBatch(null);
+    setBatchZips(earlierZips);
+    setStage("queued");
+    setProgress(Math.round((from * 100) / batchFiles.length));
+    setMessage(t.generate.generatingBatch(batchFiles.length));
 
+    const items = [...earlier];
+    const zips = [...earlierZips];
+    let start = from;
+    let size = MAX_BATCH_ITEMS;
     try {
-      const body = new FormData();
-      body.append("image", sendFile);
-      body.append("style", style);
-      body.append("paletteAccent", accent);
-      body.append("allowShapes", String(allowShapes));
-      body.append("aiText", String(aiText));
-      body.append("titleText", titleText);
+      while (start < batchFiles.length) {
+        const images = batchFiles.slice(start, start + size);
+        let data: GenerateResponse;
+        try {
+          data = await startBatch({ ...posterSettings(variations), images }, { fast: fastMode, onQuota: setQuota });
+        } catch (err: unknown) {
+          // A server running fewer drawings at a time takes fewer per batch.
+          const max = err instanceof ApiError && err.details?.field === "image" ? err.details.max : undefined;
+          if (typeof max === "number" && max > 0 && max < images.length) {
+            size = max;
+            continue;
+          }
+          throw err;
+        }
+
+        const offset = start;
+        const job = await waitForJob<BatchResult>(data.jobId, (j) => {
+          setStage(j.status === "queued" ? "queued" : "generating");
+          setProgress(Math.round((offset * 100 + j.progress * images.length) / batchFiles.length));
+          if (j.result) setBatch({ ...j.result, items: [...items, ...j.result.items] });
+        });
+        if (job.result?.items.some((i) => i.status === "done")) {
+          zips.push(data.jobId);
+          setBatchZips([...zips]);
+        }
+        if (job.status === "failed") throw jobError(job);
+        items.push(...(job.result?.items ?? []));
+        start += images.length;
+      }
+      const failed = items.filter((i) => i.status === "failed").length;
+      setMessage(failed ? t.generate.batchSomeFailed(failed, batchFiles.length) : t.generate.batchDone, !!failed);
+    } catch (err: unknown) {
+      const msg = errorText(t, err);
+      setMessage(err instanceof QuotaError ? msg : t.generate.failed(msg), true);
+      const resume = start;
+      if (err instanceof ApiError && err.retryable) setRetry(() => () => void handleBatch(resume, items, zips));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Clean title is typeset on the server so every device gets the same poster
+  function typography(): Typography | undefined {
+    return overlayCleanText ? { layout: titleLayout, font: titleFont, caption } : undefined;
+  }
 
-      const url = fastMode ? "/api/generate?fast=1" : "/api/generate";
-      const res = await fetch(url, { method: "POST", body });
+  // The style, palette and title settings shared by every generate request.
+  function posterSettings(count: number): PosterSettings {
+    return {
+      style,
+      palette,
+      accent: palette[0],
+      enforcePalette,
+      allowShapes,
+      aiText,
+      titleText,
+      typography: typography(),
+      variations: count,
+      fidelity: fidelityMode,
+      childId: childId || undefined,
+    };
+  }
 
-      let data: unknown = {};
-      try { data = await res.json(); } catch {}
-      const parsed = data as GenerateResponse;
+  // Why a collage layout can't take `count` drawings, or null if it can.
+  function pieceCountError(layout: CollageLayout, count: number): string | null {
+    if (!checkPieceCount(layout, count)) return null;
+    const [min, max] = COLLAGE_LAYOUTS[layout].pieces;
+    const label = t.collage.layouts[layout];
+    return min === max ? t.collage.needsExactly(label, min) : t.collage.needsBetween(label, min, max);
+  }
 
-      if (!res.ok) throw new Error(parsed?.error || `Server error ${res.status}`);
-      if (!parsed?.posterUrl) throw new Error("No posterUrl in response");
+  // Generate a fresh set, or — with `replace` — only new images for those slots.
+  // Unchanged drawing and settings come from the result cache unless `force`.
+  async function handleGenerate(replace?: number[], force = false) {
+    if (!sendFile && !collageMode) {
+      setMessage(t.upload.selectFirst);
+      return;
+    }
+    const countError = collageMode ? pieceCountError(collageLayout, collageFiles.length) : null;
+    if (countError) {
+      setMessage(countError, true);
+      return;
+    }
+    const collageCount = collageOutput === "set" ? collageFiles.length : 1;
+    const count = collageMode ? collageCount : replace?.length || variations;
+    setLoading(true);
+    setRetry(null);
+    if (!replace) {
+      setPosters([]);
+      setRejected([]);
+    }
+    setStage("queued");
+    setProgress(0);
+    setMessage(t.generate.busy);
 
-      let finalUrl = parsed.posterUrl;
+    try {
+      const { posters: results, cached } = await runPosterJob(
+        collageMode
+          ? startCollage(
+              { ...posterSettings(1), images: collageFiles, layout: collageLayout, output: collageOutput },
+              { onQuota: setQuota }
+            )
+          : startGeneration(
+              // Replacing rejected slots must never get the same posters back.
+              { ...posterSettings(count), image: sendFile!, force: force || !!replace },
+              { fast: fastMode, onQuota: setQuota }
+            )
+      );
+      const lowCount = results.filter((p) => p.lowFidelity).length;
+      const squareCount = results.filter((p) => p.fallbackSize).length;
 
-      // Overlay crisp title locally if requested
-      if (overlayCleanText && titleText.trim()) {
-        finalUrl = await overlayTitle(finalUrl, titleText.trim());
+      const slots = replace ?? results.map((_, i) => i);
+      const params = (variation: number): VersionParams => ({
+        kind: "generate",
+        style,
+        palette,
+        enforcePalette,
+        allowShapes,
+        titleText,
+        variation,
+      });
+      setHistory((h) => results.reduce((acc, p, i) => addVersion(acc, p, params(slots[i])), h));
+      if (!replace) {
+        setCurrentId(results[0].key);
+      } else {
+        const replacedCurrent = slots.findIndex((slot, i) => results[i] && posters[slot]?.key === currentId);
+        if (replacedCurrent >= 0) setCurrentId(results[replacedCurrent].key);
       }
 
-      setPosterUrl(finalUrl);
-      setMessage("Done! Poster generated.");
+      if (replace) {
+        setPosters((prev) => {
+          const next = [...prev];
+          replace.forEach((slot, i) => {
+            if (results[i]) next[slot] = results[i];
+          });
+          return next;
+        });
+        setRejected((r) => r.map((v, j) => v && !replace.slice(0, results.length).includes(j)));
+      } else {
+        setPosters(results);
+        setRejected(results.map(() => false));
+      }
+      const missing = count - results.length;
+      setFromCache(!!cached);
+      setMessage(
+        cached
+          ? t.generate.cached
+          : missing > 0
+          ? t.generate.someFailed(missing, count)
+          : lowCount > 0
+          ? t.generate.lowFidelity(lowCount, count)
+          : squareCount > 0
+          ? t.generate.square(squareCount, count)
+          : collageMode
+          ? collageOutput === "set"
+            ? t.generate.doneSet
+            : t.generate.doneCollage
+          : count > 1
+          ? t.generate.doneMany
+          : t.generate.doneOne,
+        !cached && (missing > 0 || lowCount > 0)
+      );
     } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      setMessage("Generation failed: " + msg);
-      console.error("Generate error:", msg);
+      const msg = errorText(t, err);
+      setMessage(err instanceof QuotaError ? msg : t.generate.failed(msg), true);
+      if (err instanceof ApiError && err.retryable) setRetry(() => () => void handleGenerate(replace, force));
+      console.error("Generate error:", err);
     } finally {
       setLoading(false);
     }
   }
 
-  // Simple progress bar width based on step
-  const progress = ((stepIndex + 1) / funSteps.length) * 100;
+  // Refine the current version into a new one. In edit mode only the painted
+  // area changes. Refining an older version branches from it.
+  async function handleRefine() {
+    const masked = editing;
+    if (!current || !currentId || !instruction.trim() || (masked && !mask)) return;
+    const parentId = currentId;
+    setLoading(true);
+    setRetry(null);
+    setStage("queued");
+    setProgress(0);
+    setMessage(masked ? t.refine.maskWorking : t.refine.working);
+
+    try {
+      const body = encodeTypography(new FormData(), typography());
+      body.append("artKey", current.artKey);
+      if (masked && mask) body.append("mask", mask, "mask.png");
+      body.append("instruction", instruction.trim());
+      body.append("titleText", titleText);
+
+      const {
+        posters: [result],
+      } = await runPosterJob(startJob("/api/refine", body, { onQuota: setQuota }));
+      setHistory((h) => addVersion(h, result, { kind: "refine", instruction: instruction.trim(), masked }, parentId));
+      setCurrentId(result.key);
+      setEditing(false);
+      setInstruction("");
+      setMessage(
+        result.lowFidelity ? t.refine.lowFidelity : masked ? t.refine.doneMasked : t.refine.done,
+        !!result.lowFidelity
+      );
+    } catch (err: unknown) {
+      const msg = errorText(t, err);
+      setMessage(err instanceof QuotaError ? msg : t.refine.failed(msg), true);
+      if (err instanceof ApiError && err.retryable) setRetry(() => () => void handleRefine());
+      console.error("Refine error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }
 
   return (
     <div style={{ padding: 24, maxWidth: 1080, margin: "0 auto", fontFamily: "ui-sans-serif, system-ui" }}>
       {/* Header */}
       <div style={{ display: "flex", alignItems: "center", gap: 10, marginBottom: 14 }}>
         <Sparkles />
-        <h1 style={{ fontSize: 28, fontWeight: 700 }}>Kids Art → Living-Room Poster</h1>
+        <h1 style={{ fontSize: 28, fontWeight: 700 }}>{t.app.title}</h1>
+        <Link href="/gallery" style={{ marginLeft: "auto", display: "inline-flex", alignItems: "center", gap: 6, color: "#0f172a" }}>
+          <Images size={16} /> {t.app.gallery}
+        </Link>
+        <LocaleSwitcher />
       </div>
 
       {/* Status / Messages */}
@@ -235,12 +746,12 @@ export default function KidsPosterMVP() {
           >
             <Loader2 className="spin" />
             <motion.span
-              key={stepIndex}
+              key={stage}
               initial={{ opacity: 0, y: 4 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.25 }}
             >
-              {funSteps[stepIndex]}
+              {t.stages[stage] || stage}
             </motion.span>
           </motion.div>
         ) : (
@@ -249,9 +760,17 @@ export default function KidsPosterMVP() {
             initial={{ opacity: 0, y: -4 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0 }}
-            style={{ marginBottom: 12, color: message.startsWith("Generation failed") ? "#b91c1c" : "#334155" }}
+            style={{ marginBottom: 12, color: messageIsError ? "#b91c1c" : "#334155" }}
           >
-            {message || "Choose a PNG/JPG. You should see a filename and preview below."}
+            {message || t.upload.idle}
+            {retry && (
+              <button
+                onClick={retry}
+                style={{ marginLeft: 10, display: "inline-flex", alignItems: "center", gap: 4, verticalAlign: "middle" }}
+              >
+                <RefreshCw size={14} /> {t.app.tryAgain}
+              </button>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -284,12 +803,39 @@ export default function KidsPosterMVP() {
             <input
               type="file"
               accept="image/*"
-              onChange={(e) => void pickFile(e.target.files?.[0] || null)}
+              multiple
+              onChange={(e) => void pickFiles(Array.from(e.target.files ?? []))}
               style={{ display: "none" }}
             />
-            Vælg fil
+            {t.upload.chooseFile}
+          </label>
+          {batchMode && (
+            <label
+              style={{
+                display: "inline-block",
+                padding: "8px 14px",
+                borderRadius: 10,
+                border: "1px solid #cbd5e1",
+                background: "white",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="file"
+                {...{ webkitdirectory: "" }}
+                onChange={(e) => void pickFiles(Array.from(e.target.files ?? []))}
+                style={{ display: "none" }}
+              />
+              {t.upload.chooseFolder}
+            </label>
+          )}
+          <span style={{ color: "#64748b" }}>
+            {batchMode ? t.upload.dropBatchHint : t.upload.dropHint(MAX_PIECES)}
+          </span>
+          <label style={{ display: "flex", alignItems: "center", gap: 6, marginLeft: 8 }}>
+            <input type="checkbox" checked={batchMode} disabled={loading} onChange={(e) => toggleBatchMode(e.target.checked)} />
+            {t.upload.batchMode}
           </label>
-          <span style={{ color: "#64748b" }}>or drag & drop an image here</span>
         </div>
 
         {/* Progress bar during loading */}
@@ -311,38 +857,101 @@ export default function KidsPosterMVP() {
               <motion.div
                 style={{ height: "100%", background: "#0f172a" }}
                 animate={{ width: `${progress}%` }}
-                transition={{ ease: "linear", duration: 0.9, repeat: Infinity, repeatType: "reverse" }}
+                transition={{ ease: "easeOut", duration: 0.4 }}
               />
             </motion.div>
           )}
         </AnimatePresence>
       </div>
 
+      {batchMode && batchFiles.length > 0 && (
+        <BatchQueue
+          files={batchFiles}
+          batch={batch}
+          zips={batchZips}
+          onRemove={loading ? undefined : removeBatchItem}
+        />
+      )}
+
       {/* Controls */}
       <div style={{ display: "flex", flexWrap: "wrap", gap: 12, alignItems: "center", marginBottom: 18 }}>
-        <label>
-          Style{" "}
-          <select value={style} onChange={(e) => setStyle(e.target.value as StyleOption)}>
-            <option value="Matisse-esque">Matisse-esque</option>
-            <option value="Bauhaus">Bauhaus</option>
-            <option value="Mid-century">Mid-century</option>
-            <option value="Minimalist">Minimalist</option>
+        <ChildPicker value={childId} onChange={chooseChild} style={style} palette={palette} onError={reportError} />
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          {t.controls.style}
+          <img
+            src={STYLE_PRESETS[style].thumbnail}
+            alt=""
+            width={28}
+            height={28}
+            style={{ borderRadius: 6, border: "1px solid #e2e8f0" }}
+          />
+          <select value={style} onChange={(e) => chooseStyle(e.target.value as StyleId)}>
+            {STYLE_IDS.map((id) => (
+              <option key={id} value={id}>
+                {t.styles[id]}
+              </option>
+            ))}
           </select>
         </label>
 
-        <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
-          Accent <input type="color" value={accent} onChange={(e) => setAccent(e.target.value)} />
-          <span style={{ fontFamily: "ui-monospace, Menlo, monospace" }}>{accent}</span>
+        <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          {t.controls.palette}
+          <select value={paletteSource} onChange={(e) => void choosePaletteSource(e.target.value)}>
+            <option value="style">{t.controls.paletteStyle}</option>
+            {(Object.keys(PALETTE_PRESETS) as PalettePresetId[]).map((id) => (
+              <option key={id} value={id}>
+                {t.palettes[id]}
+              </option>
+            ))}
+            <option value="drawing">{t.controls.paletteDrawing}</option>
+            <option value="custom">{t.controls.paletteCustom}</option>
+          </select>
+          {palette.map((c, i) => (
+            <input
+              key={i}
+              type="color"
+              value={c}
+              title={i === 0 ? t.controls.accent(c) : c}
+              onChange={(e) => setSwatch(i, e.target.value)}
+              style={{ width: 28, height: 28, padding: 0, border: "none" }}
+            />
+          ))}
+          <button
+            onClick={() => {
+              setPalette((p) => [...p, "#FFFFFF"]);
+              setPaletteSource("custom");
+            }}
+            disabled={palette.length >= MAX_PALETTE}
+            title={t.controls.addColour}
+          >
+            +
+          </button>
+          <button
+            onClick={() => {
+              setPalette((p) => p.slice(0, -1));
+              setPaletteSource("custom");
+            }}
+            disabled={palette.length <= MIN_PALETTE}
+            title={t.controls.removeColour}
+          >
+            −
+          </button>
+        </div>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          <input type="checkbox" checked={enforcePalette} onChange={(e) => setEnforcePalette(e.target.checked)} />
+          {t.controls.enforcePalette}
         </label>
 
         <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
           <input type="checkbox" checked={allowShapes} onChange={(e) => setAllowShapes(e.target.checked)} />
-          Allow simple shapes
+          {t.controls.allowShapes}
         </label>
 
         <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
           <input type="checkbox" checked={aiText} onChange={(e) => setAiText(e.target.checked)} />
-          Let AI render title
+          {t.controls.aiText}
         </label>
 
         <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
@@ -351,14 +960,15 @@ export default function KidsPosterMVP() {
             checked={overlayCleanText}
             onChange={(e) => setOverlayCleanText(e.target.checked)}
           />
-          Overlay clean title (recommended)
+          {t.controls.overlayTitle}
         </label>
 
         <input
           type="text"
           value={titleText}
           onChange={(e) => setTitleText(e.target.value)}
-          placeholder="Poster title (optional)"
+          placeholder={t.controls.titlePlaceholder}
+          maxLength={MAX_TITLE_LENGTH}
           style={{
             padding: "8px 12px",
             borderRadius: 8,
@@ -367,28 +977,119 @@ export default function KidsPosterMVP() {
           }}
         />
 
+        <input
+          type="text"
+          value={caption}
+          onChange={(e) => {
+            setCaptionText(e.target.value);
+            setCaptionChild(null);
+          }}
+          placeholder={t.controls.captionPlaceholder(childCaption({ name: "Ida", birthDate: "2021-01-01" }, locale, EXAMPLE_DATE))}
+          maxLength={MAX_CAPTION_LENGTH}
+          disabled={!overlayCleanText}
+          style={{
+            padding: "8px 12px",
+            borderRadius: 8,
+            border: "1px solid #cbd5e1",
+            minWidth: 240,
+          }}
+        />
+
+        <label>
+          {t.controls.titleLayout}{" "}
+          <select
+            value={titleLayout}
+            disabled={!overlayCleanText}
+            onChange={(e) => setTitleLayout(e.target.value as TitleLayout)}
+          >
+            {(Object.keys(TITLE_LAYOUTS) as TitleLayout[]).map((l) => (
+              <option key={l} value={l}>
+                {t.titleLayouts[l]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          {t.controls.titleFont}{" "}
+          <select value={titleFont} disabled={!overlayCleanText} onChange={(e) => setTitleFont(e.target.value as TitleFont)}>
+            {(Object.keys(TITLE_FONTS) as TitleFont[]).map((f) => (
+              <option key={f} value={f}>
+                {t.titleFonts[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {collageMode ? (
+          <>
+            <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              {t.controls.collageLayout}
+              <select value={collageLayout} onChange={(e) => setCollageLayout(e.target.value as CollageLayout)}>
+                {(Object.keys(COLLAGE_LAYOUTS) as CollageLayout[]).map((l) => (
+                  <option key={l} value={l} disabled={!!checkPieceCount(l, collageFiles.length)}>
+                    {t.collage.layouts[l]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <select value={collageOutput} onChange={(e) => setCollageOutput(e.target.value as CollageOutput)}>
+              {(Object.keys(COLLAGE_OUTPUTS) as CollageOutput[]).map((o) => (
+                <option key={o} value={o}>
+                  {t.collage.outputs[o]}
+                </option>
+              ))}
+            </select>
+          </>
+        ) : (
+          <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            {t.controls.variations}
+            <select value={variations} onChange={(e) => setVariations(Number(e.target.value))}>
+              {[1, 2, 3, 4].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
         <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
-          <input type="checkbox" checked={fastMode} onChange={(e) => setFastMode(e.target.checked)} />
-          Fast mode (Vercel)
+          {t.controls.fidelity}
+          <select value={fidelityMode} onChange={(e) => setFidelityMode(e.target.value as typeof fidelityMode)}>
+            <option value="warn">{t.controls.fidelityWarn}</option>
+            <option value="retry">{t.controls.fidelityRetry}</option>
+            <option value="off">{t.controls.fidelityOff}</option>
+          </select>
+        </label>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={fastMode}
+            disabled={collageMode}
+            onChange={(e) => setFastMode(e.target.checked)}
+          />
+          {t.controls.fastMode}
         </label>
 
         <button
-          onClick={handleGenerate}
-          disabled={!sendFile || loading}
+          onClick={() => void (batchMode ? handleBatch() : handleGenerate())}
+          disabled={(batchMode ? !batchFiles.length : !sendFile && !collageMode) || loading}
           style={{
             padding: "10px 14px",
             borderRadius: 10,
             background: "#0f172a",
             color: "white",
             border: "1px solid #0f172a",
-            cursor: loading || !sendFile ? "not-allowed" : "pointer",
+            cursor: loading || (batchMode ? !batchFiles.length : !sendFile && !collageMode) ? "not-allowed" : "pointer",
             display: "inline-flex",
             alignItems: "center",
             gap: 8,
           }}
         >
           {loading ? <Loader2 className="spin" /> : <Wand2 />}
-          {loading ? "Generating…" : "Generate Poster"}
+          {loading ? t.generate.busy : batchMode ? t.generate.batchButton(batchFiles.length) : t.generate.button}
         </button>
 
         <button
@@ -406,14 +1107,170 @@ export default function KidsPosterMVP() {
             gap: 8,
           }}
         >
-          <Download /> Download PNG
+          <Download /> {t.poster.download}
+        </button>
+
+        <button
+          onClick={() => void sharePoster()}
+          disabled={!current || sharing}
+          title={t.share.title}
+          style={{
+            padding: "10px 14px",
+            borderRadius: 10,
+            background: "white",
+            color: "#0f172a",
+            border: "1px solid #0f172a",
+            cursor: current && !sharing ? "pointer" : "not-allowed",
+            display: "inline-flex",
+            alignItems: "center",
+            gap: 8,
+          }}
+        >
+          {sharing ? <Loader2 className="spin" /> : <Share2 />} {t.share.button}
+        </button>
+
+        {fromCache && posters.length > 0 && !collageMode && !batchMode && (
+          <button
+            onClick={() => void handleGenerate(undefined, true)}
+            disabled={loading}
+            title={t.generate.anewTitle}
+            style={{
+              padding: "10px 14px",
+              borderRadius: 10,
+              background: "white",
+              color: "#0f172a",
+              border: "1px solid #0f172a",
+              cursor: loading ? "not-allowed" : "pointer",
+              display: "inline-flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <RefreshCw /> {t.generate.anew}
+          </button>
+        )}
+
+        {posters.length > 1 && !collageMode && (
+          <button
+            onClick={() => void handleGenerate(rejected.flatMap((r, i) => (r ? [i] : [])))}
+            disabled={!rejectedCount || loading}
+            style={{
+              padding: "10px 14px",
+              borderRadius: 10,
+              background: "white",
+              color: "#0f172a",
+              border: "1px solid #0f172a",
+              cursor: rejectedCount && !loading ? "pointer" : "not-allowed",
+              display: "inline-flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <RefreshCw /> {t.generate.regenerateRejected(rejectedCount)}
+          </button>
+        )}
+
+        {quota && quota.remaining !== null && quota.limit !== null && (
+          <span style={{ color: quota.remaining ? "#64748b" : "#b45309", fontSize: 13 }}>
+            {quota.remaining
+              ? t.quota.left(quota.remaining, quota.limit)
+              : t.quota.none +
+                (quota.resetAt
+                  ? t.quota.moreAt(new Date(quota.resetAt).toLocaleTimeString(intl, { hour: "2-digit", minute: "2-digit" }))
+                  : "")}
+          </span>
+        )}
+      </div>
+
+      {share && (
+        <div style={{ maxWidth: 560, marginBottom: 18 }}>
+          <ShareActions
+            key={share.id}
+            share={share}
+            onRevoked={() => {
+              setShares((prev) => Object.fromEntries(Object.entries(prev).filter(([, s]) => s.id !== share.id)));
+              setMessage(t.share.revoked);
+            }}
+          />
+        </div>
+      )}
+
+      {/* Print export */}
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 12, alignItems: "center", marginBottom: 18 }}>
+        <label>
+          {t.print.paper}{" "}
+          <select value={paperFormat} onChange={(e) => setPaperFormat(e.target.value as PaperFormat)}>
+            {(Object.keys(PAPER_FORMATS) as PaperFormat[]).map((f) => (
+              <option key={f} value={f}>
+                {PAPER_FORMATS[f].label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          {t.print.orientation}{" "}
+          <select value={orientation} onChange={(e) => setOrientation(e.target.value as Orientation)}>
+            <option value="portrait">{t.print.portrait}</option>
+            <option value="landscape">{t.print.landscape}</option>
+          </select>
+        </label>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          {t.print.margin}
+          <input
+            type="number"
+            min={0}
+            max={150}
+            value={marginMm}
+            onChange={(e) => setMarginMm(Number(e.target.value))}
+            style={{ width: 64 }}
+          />
+        </label>
+
+        <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+          {t.print.bleed}
+          <input
+            type="number"
+            min={0}
+            max={10}
+            value={bleedMm}
+            onChange={(e) => setBleedMm(Number(e.target.value))}
+            style={{ width: 56 }}
+          />
+        </label>
+
+        <label>
+          {t.print.format}{" "}
+          <select value={exportOutput} onChange={(e) => setExportOutput(e.target.value as ExportOutput)}>
+            <option value="pdf">{t.print.pdf}</option>
+            <option value="png">{t.print.png}</option>
+          </select>
+        </label>
+
+        <button
+          onClick={() => void exportPoster()}
+          disabled={!posterUrl || exporting}
+          style={{
+            padding: "10px 14px",
+            borderRadius: 10,
+            background: "white",
+            color: "#0f172a",
+            border: "1px solid #0f172a",
+            cursor: posterUrl && !exporting ? "pointer" : "not-allowed",
+            display: "inline-flex",
+            alignItems: "center",
+            gap: 8,
+          }}
+        >
+          {exporting ? <Loader2 className="spin" /> : <Printer />} {t.print.button}
         </button>
       </div>
 
       {/* Previews */}
       <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 16, alignItems: "start" }}>
         <div>
-          <div style={{ color: "#475569", marginBottom: 8 }}>Original</div>
+          <div style={{ color: "#475569", marginBottom: 8 }}>{t.upload.original}</div>
           <motion.div
             initial={{ opacity: 0, y: 6 }}
             animate={{ opacity: 1, y: 0 }}
@@ -428,19 +1285,112 @@ export default function KidsPosterMVP() {
               background: "white",
             }}
           >
-            {origFile ? (
+            {collageMode ? (
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: `repeat(${Math.ceil(Math.sqrt(collageFiles.length))}, 1fr)`,
+                  gap: 8,
+                  width: "100%",
+                  height: "100%",
+                  padding: 8,
+                }}
+              >
+                {collageUrls.map((url, i) => (
+                  <div key={url} style={{ position: "relative", minHeight: 0 }}>
+                    <img
+                      src={url}
+                      alt={t.upload.drawing(i + 1)}
+                      style={{ width: "100%", height: "100%", objectFit: "contain" }}
+                    />
+                    <button
+                      onClick={() => removeCollagePiece(i)}
+                      disabled={loading}
+                      title={t.upload.removeDrawing}
+                      style={{ position: "absolute", top: 4, right: 4, padding: 2, display: "inline-flex" }}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : cleaned ? (
+              <img
+                src={cleanedUrl}
+                alt={t.upload.cleaned}
+                style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
+              />
+            ) : photoFile && cleanupEnabled && corners ? (
+              <CropCornersEditor src={photoUrl} corners={corners} onChange={setCorners} />
+            ) : origFile ? (
               <img
                 src={URL.createObjectURL(origFile)}
-                alt="original"
+                alt={t.upload.original}
                 style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
               />
             ) : (
-              <span style={{ color: "#94a3b8" }}>No image yet</span>
+              <span style={{ color: "#94a3b8" }}>{t.upload.noImage}</span>
             )}
           </motion.div>
+
+          {/* Photo cleanup */}
+          {photoFile && (
+            <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 10, marginTop: 8 }}>
+              <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={cleanupEnabled}
+                  onChange={(e) => {
+                    setCleanupEnabled(e.target.checked);
+                    if (!e.target.checked) void undoCleanup();
+                  }}
+                />
+                {t.cleanup.toggle}
+              </label>
+              {cleanupEnabled && !cleaned && corners && (
+                <button onClick={() => void applyCleanup()} disabled={cleaning}>
+                  {cleaning ? <Loader2 size={14} className="spin" /> : <Crop size={14} />} {t.cleanup.apply}
+                </button>
+              )}
+              {cleaned && <button onClick={() => void undoCleanup()}>{t.cleanup.adjust}</button>}
+              {cleanupEnabled && !cleaned && corners && (
+                <span style={{ color: "#64748b" }}>{t.cleanup.hint}</span>
+              )}
+            </div>
+          )}
         </div>
         <div>
-          <div style={{ color: "#475569", marginBottom: 8 }}>Poster</div>
+          <div style={{ color: "#475569", marginBottom: 8, display: "flex", gap: 8, alignItems: "center" }}>
+            {t.poster.heading}
+            {current?.fidelity !== undefined && (
+              <span
+                title={t.poster.fidelityTitle}
+                style={{ color: current.lowFidelity ? "#b91c1c" : "#15803d" }}
+              >
+                {current.lowFidelity ? "⚠ " : ""}
+                {t.poster.fidelity(Math.round(current.fidelity * 100))}
+              </span>
+            )}
+            {current && (
+              <button
+                onClick={() => setMockup((v) => !v)}
+                disabled={editing}
+                title={t.poster.inRoomTitle}
+                style={{ marginLeft: "auto", display: "inline-flex", alignItems: "center", gap: 4 }}
+              >
+                <Sofa size={14} /> {mockup ? t.poster.posterOnly : t.poster.inRoom}
+              </button>
+            )}
+            {current && (
+              <button
+                onClick={() => setEditing((v) => !v)}
+                disabled={loading}
+                style={{ display: "inline-flex", alignItems: "center", gap: 4 }}
+              >
+                <Brush size={14} /> {editing ? t.poster.cancelEdit : t.poster.editRegion}
+              </button>
+            )}
+          </div>
           <motion.div
             initial={{ opacity: 0, y: 6 }}
             animate={{ opacity: 1, y: 0 }}
@@ -455,16 +1405,167 @@ export default function KidsPosterMVP() {
               background: "white",
             }}
           >
-            {posterUrl ? (
+            {editing && current ? (
+              <RegionMaskEditor src={current.artUrl} onMaskChange={setMask} maxHeight={420} />
+            ) : compareVersion && currentVersion ? (
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8, width: "100%", height: "100%", padding: 8 }}>
+                {[compareVersion, currentVersion].map((v) => (
+                  <figure key={v.id} style={{ margin: 0, display: "flex", flexDirection: "column", minHeight: 0 }}>
+                    <img
+                      src={v.poster.posterUrl}
+                      alt={versionLabel(history, v.id)}
+                      style={{ flex: 1, minHeight: 0, width: "100%", objectFit: "contain" }}
+                    />
+                    <figcaption style={{ color: "#475569", fontSize: 13, textAlign: "center" }}>
+                      {versionLabel(history, v.id)} · {describeVersion(v, t)}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            ) : mockup && current ? (
+              <RoomMockup
+                posterKey={current.key}
+                format={paperFormat}
+                orientation={orientation}
+                matMm={marginMm}
+                onError={reportError}
+              />
+            ) : posterUrl ? (
               <img
                 src={posterUrl}
-                alt="poster"
+                alt={t.poster.alt}
                 style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
               />
             ) : (
-              <span style={{ color: "#94a3b8" }}>Generate to see result</span>
+              <span style={{ color: "#94a3b8" }}>{t.poster.empty}</span>
             )}
           </motion.div>
+
+          {current && (
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <input
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder={editing ? t.refine.maskPlaceholder : t.refine.placeholder}
+                maxLength={MAX_INSTRUCTION_LENGTH}
+                style={{ flex: 1, padding: "6px 8px" }}
+              />
+              <button
+                onClick={() => void handleRefine()}
+                disabled={loading || !instruction.trim() || (editing && !mask)}
+              >
+                {loading ? <Loader2 size={14} className="spin" /> : <Paintbrush size={14} />}{" "}
+                {editing ? t.refine.maskButton : t.refine.button}
+              </button>
+              <button
+                onClick={() => setCurrentId(currentVersion?.parentId ?? null)}
+                disabled={loading || !currentVersion?.parentId}
+                title={t.refine.undoTitle}
+              >
+                <Undo2 size={14} /> {t.refine.undo}
+              </button>
+            </div>
+          )}
+
+          {/* Variations gallery */}
+          {posters.length > 1 && (
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 8, marginTop: 8 }}>
+              {posters.map(({ posterUrl: url }, i) => (
+                <div
+                  key={url}
+                  onClick={() => setCurrentId(posters[i].key)}
+                  style={{
+                    position: "relative",
+                    height: 110,
+                    borderRadius: 8,
+                    overflow: "hidden",
+                    cursor: "pointer",
+                    border: i === selected ? "2px solid #0f172a" : "1px solid #e2e8f0",
+                    opacity: rejected[i] ? 0.4 : 1,
+                    background: "white",
+                  }}
+                >
+                  <img
+                    src={url}
+                    alt={t.poster.variation(i + 1)}
+                    style={{ width: "100%", height: "100%", objectFit: "contain" }}
+                  />
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleRejected(i);
+                    }}
+                    title={rejected[i] ? t.poster.keep : t.poster.reject}
+                    style={{
+                      position: "absolute",
+                      top: 4,
+                      right: 4,
+                      padding: 2,
+                      borderRadius: 999,
+                      border: "1px solid #cbd5e1",
+                      background: rejected[i] ? "#b91c1c" : "white",
+                      color: rejected[i] ? "white" : "#0f172a",
+                      display: "inline-flex",
+                      cursor: "pointer",
+                    }}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Version history: step back, compare or branch from an older version */}
+          {history.length > 1 && (
+            <div style={{ marginTop: 12 }}>
+              <div style={{ color: "#475569", marginBottom: 6, display: "flex", gap: 8, alignItems: "center" }}>
+                {t.history.heading}
+                {compareVersion && (
+                  <button onClick={() => setCompareId(null)} style={{ marginLeft: "auto" }}>
+                    {t.history.stopComparing}
+                  </button>
+                )}
+              </div>
+              <div style={{ display: "flex", gap: 8, overflowX: "auto", paddingBottom: 4 }}>
+                {history.map((v) => (
+                  <div
+                    key={v.id}
+                    style={{
+                      flex: "0 0 96px",
+                      borderRadius: 8,
+                      border: v.id === currentId ? "2px solid #0f172a" : "1px solid #e2e8f0",
+                      outline: v.id === compareId ? "2px dashed #ec4899" : undefined,
+                      background: "white",
+                      fontSize: 12,
+                      overflow: "hidden",
+                    }}
+                  >
+                    <img
+                      src={v.poster.posterUrl}
+                      alt={versionLabel(history, v.id)}
+                      onClick={() => setCurrentId(v.id)}
+                      style={{ width: "100%", height: 80, objectFit: "contain", cursor: "pointer", display: "block" }}
+                    />
+                    <div style={{ padding: "2px 4px", color: "#334155" }} title={describeVersion(v, t)}>
+                      <strong>{versionLabel(history, v.id)}</strong>
+                      {v.parentId && <span style={{ color: "#64748b" }}> ← {versionLabel(history, v.parentId)}</span>}
+                      <div style={{ whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                        {describeVersion(v, t)}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setCompareId(v.id === compareId ? null : v.id)}
+                      disabled={v.id === currentId}
+                      style={{ width: "100%", fontSize: 11, display: "inline-flex", justifyContent: "center", gap: 4 }}
+                    >
+                      <Columns2 size={12} /> {v.id === compareId ? t.history.comparing : t.history.compare}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,44 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { getMessages, intlLocale, Locale, LOCALE_COOKIE, Messages } from "@/lib/i18n";
+
+type I18n = {
+  locale: Locale;
+  t: Messages;
+  // BCP 47 tag for Intl/toLocale* formatting
+  intl: string;
+  setLocale: (locale: Locale) => void;
+};
+
+const LocaleContext = createContext<I18n | null>(null);
+
+// The UI language, detected on the server (see app/layout.tsx). Switching
+// stores the choice in a cookie and re-renders the server parts of the page.
+export default function LocaleProvider({ initial, children }: { initial: Locale; children: React.ReactNode }) {
+  const router = useRouter();
+  const [locale, setLocaleState] = useState<Locale>(initial);
+
+  const setLocale = useCallback(
+    (next: Locale) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; Path=/; Max-Age=${365 * 24 * 60 * 60}; SameSite=Lax`;
+      document.documentElement.lang = next;
+      setLocaleState(next);
+      router.refresh();
+    },
+    [router]
+  );
+
+  const value = useMemo(
+    () => ({ locale, t: getMessages(locale), intl: intlLocale(locale), setLocale }),
+    [locale, setLocale]
+  );
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useI18n(): I18n {
+  const i18n = useContext(LocaleContext);
+  if (!i18n) throw new Error("useI18n must be used inside <LocaleProvider>");
+  return i18n;
+}
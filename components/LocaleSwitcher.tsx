@@ -0,0 +1,23 @@
+"use client";
+
+import React from "react";
+import { Languages } from "lucide-react";
+import { getMessages, LOCALES, Locale } from "@/lib/i18n";
+import { useI18n } from "./LocaleProvider";
+
+// Each language is listed in its own name.
+export default function LocaleSwitcher() {
+  const { locale, t, setLocale } = useI18n();
+  return (
+    <label style={{ display: "inline-flex", alignItems: "center", gap: 4, color: "#0f172a" }} title={t.language}>
+      <Languages size={16} />
+      <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)} aria-label={t.language}>
+        {LOCALES.map((l) => (
+          <option key={l} value={l}>
+            {getMessages(l).languageName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Download, Loader2, RefreshCw, Trash2, ArrowLeft, Images } from "lucide-react";
+import type { Child } from "@/lib/children/types";
+import { ApiError, readErrorEnvelope } from "@/lib/errors";
+import type { PosterRecordView } from "@/lib/gallery";
+import type { GenerateResult } from "@/lib/generate";
+import { startJob } from "@/lib/generate-client";
+import { errorText } from "@/lib/i18n";
+import { jobError, waitForJob } from "@/lib/jobs/client";
+import { QuotaError } from "@/lib/ratelimit/client";
+import { useI18n } from "./LocaleProvider";
+import LocaleSwitcher from "./LocaleSwitcher";
+
+const PAGE_SIZE = 24;
+
+type ListResponse = { posters?: PosterRecordView[]; total?: number };
+
+function saveAs(href: string, filename: string) {
+  const a = document.createElement("a");
+  a.href = href;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
+
+// Browse recorded generations: re-download, regenerate with the same settings, delete.
+export default function PosterGallery() {
+  const { t, intl } = useI18n();
+  const [records, setRecords] = useState<PosterRecordView[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [open, setOpen] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessageText] = useState<string>("");
+  const [messageIsError, setMessageIsError] = useState<boolean>(false);
+  const [children, setChildren] = useState<Child[]>([]);
+  const [childId, setChildId] = useState<string>("");
+  const childName = (id?: string) => children.find((c) => c.id === id)?.name;
+  const setMessage = useCallback((text: string, error = false) => {
+    setMessageText(text);
+    setMessageIsError(error);
+  }, []);
+
+  const load = useCallback(async (offset = 0) => {
+    setLoading(true);
+    try {
+      const query = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(offset) });
+      if (childId) query.set("childId", childId);
+      const res = await fetch(`/api/posters?${query}`, { cache: "no-store" });
+      if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+      const data = (await res.json()) as ListResponse;
+      setRecords((prev) => (offset ? [...prev, ...(data.posters ?? [])] : data.posters ?? []));
+      setTotal(data.total ?? 0);
+    } catch (err: unknown) {
+      setMessage(t.gallery.loadFailed(errorText(t, err)), true);
+    } finally {
+      setLoading(false);
+    }
+  }, [childId, t, setMessage]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    fetch("/api/children", { cache: "no-store" })
+      .then((res) => res.json() as Promise<{ children?: Child[] }>)
+      .then((data) => setChildren(data.children ?? []))
+      .catch(() => setChildren([]));
+  }, []);
+
+  async function regenerate(record: PosterRecordView) {
+    setBusy(record.id);
+    setMessage(t.gallery.regenerating);
+    try {
+      const data = await startJob(`/api/posters/${record.id}/regenerate`, null);
+      const job = await waitForJob<GenerateResult>(data.jobId);
+      if (job.status === "failed") throw jobError(job);
+      setMessage(t.gallery.regenerated);
+      await load();
+      setOpen(job.result?.recordId ?? null);
+    } catch (err: unknown) {
+      const msg = errorText(t, err);
+      setMessage(err instanceof QuotaError ? msg : t.gallery.regenerateFailed(msg), true);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function remove(record: PosterRecordView) {
+    if (!window.confirm(t.gallery.confirmDelete)) return;
+    setBusy(record.id);
+    try {
+      const res = await fetch(`/api/posters/${record.id}`, { method: "DELETE" });
+      if (!res.ok && res.status !== 404) throw new ApiError(await readErrorEnvelope(res));
+      setRecords((prev) => prev.filter((r) => r.id !== record.id));
+      setTotal((n) => n - 1);
+      if (open === record.id) setOpen(null);
+      setMessage(t.gallery.deleted);
+    } catch (err: unknown) {
+      setMessage(t.gallery.deleteFailed(errorText(t, err)), true);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const detail = records.find((r) => r.id === open);
+
+  return (
+    <div style={{ padding: 24, maxWidth: 1080, margin: "0 auto", fontFamily: "ui-sans-serif, system-ui" }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 10, marginBottom: 14 }}>
+        <Images />
+        <h1 style={{ fontSize: 28, fontWeight: 700 }}>{t.app.gallery}</h1>
+        {children.length > 0 && (
+          <select value={childId} onChange={(e) => setChildId(e.target.value)} style={{ marginLeft: "auto" }}>
+            <option value="">{t.gallery.allChildren}</option>
+            {children.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <Link href="/" style={{ marginLeft: children.length ? 12 : "auto", display: "inline-flex", alignItems: "center", gap: 6, color: "#0f172a" }}>
+          <ArrowLeft size={16} /> {t.app.makePoster}
+        </Link>
+        <LocaleSwitcher />
+      </div>
+
+      {message && (
+        <div style={{ marginBottom: 12, color: messageIsError ? "#b91c1c" : "#334155" }}>{message}</div>
+      )}
+
+      {detail && (
+        <div style={{ border: "1px solid #e2e8f0", borderRadius: 12, padding: 16, marginBottom: 16, background: "white" }}>
+          <div style={{ display: "grid", gridTemplateColumns: `repeat(${detail.posters.length + 1}, 1fr)`, gap: 8 }}>
+            <figure style={{ margin: 0 }}>
+              {detail.originalUrls.length > 1 ? (
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 4, height: 260, alignContent: "center" }}>
+                  {detail.originalUrls.map((src, i) => (
+                    <img key={src} src={src} alt={t.upload.drawing(i + 1)} style={{ width: "100%", height: 80, objectFit: "contain" }} />
+                  ))}
+                </div>
+              ) : (
+                <img src={detail.originalUrl} alt={t.gallery.originalAlt} style={{ width: "100%", height: 260, objectFit: "contain" }} />
+              )}
+              <figcaption style={{ color: "#64748b", fontSize: 13, textAlign: "center" }}>
+                {detail.collage
+                  ? t.gallery.collageDrawings(
+                      detail.originalUrls.length,
+                      t.collage.layouts[detail.collage.layout] ?? detail.collage.layout
+                    )
+                  : t.upload.original}
+              </figcaption>
+            </figure>
+            {detail.posters.map((p, i) => (
+              <figure key={p.key} style={{ margin: 0 }}>
+                <img src={p.posterUrl} alt={`${t.poster.alt} ${i + 1}`} style={{ width: "100%", height: 260, objectFit: "contain" }} />
+                <figcaption style={{ fontSize: 13, textAlign: "center" }}>
+                  <button onClick={() => saveAs(p.posterUrl, `kids-poster-${detail.id.slice(0, 8)}-${i + 1}.png`)}>
+                    <Download size={12} /> {t.gallery.download}
+                  </button>
+                  {p.fidelity !== undefined && (
+                    <span style={{ marginLeft: 6, color: p.lowFidelity ? "#b91c1c" : "#15803d" }}>
+                      {Math.round(p.fidelity * 100)}%
+                    </span>
+                  )}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+          <dl style={{ display: "grid", gridTemplateColumns: "max-content 1fr", gap: "4px 12px", marginTop: 12, fontSize: 14 }}>
+            {childName(detail.childId) && (
+              <>
+                <dt style={{ color: "#64748b" }}>{t.gallery.child}</dt>
+                <dd>{childName(detail.childId)}</dd>
+              </>
+            )}
+            <dt style={{ color: "#64748b" }}>{t.gallery.style}</dt>
+            <dd>{t.styles[detail.params.style] ?? detail.params.style}</dd>
+            <dt style={{ color: "#64748b" }}>{t.gallery.palette}</dt>
+            <dd style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              {(detail.params.palette.length ? detail.params.palette : [detail.params.accent]).map((c) => (
+                <span key={c} title={c} style={{ width: 16, height: 16, borderRadius: 4, background: c, border: "1px solid #cbd5e1" }} />
+              ))}
+              {detail.params.enforcePalette && <span style={{ color: "#64748b" }}>{t.gallery.enforced}</span>}
+            </dd>
+            <dt style={{ color: "#64748b" }}>{t.gallery.shapes}</dt>
+            <dd>{detail.params.allowShapes ? t.gallery.shapesAllowed : t.gallery.shapesNotAllowed}</dd>
+            <dt style={{ color: "#64748b" }}>{t.gallery.title}</dt>
+            <dd>{detail.params.titleText || "—"}</dd>
+            <dt style={{ color: "#64748b" }}>{t.gallery.size}</dt>
+            <dd>{detail.params.size}</dd>
+            <dt style={{ color: "#64748b" }}>{t.gallery.created}</dt>
+            <dd>{new Date(detail.createdAt).toLocaleString(intl)}</dd>
+          </dl>
+          <details style={{ marginTop: 8 }}>
+            <summary style={{ cursor: "pointer", color: "#475569" }}>{t.gallery.prompt}</summary>
+            <pre style={{ whiteSpace: "pre-wrap", fontSize: 12, color: "#334155" }}>{detail.prompt.trim()}</pre>
+          </details>
+        </div>
+      )}
+
+      {!loading && !records.length ? (
+        <div style={{ color: "#94a3b8" }}>{t.gallery.empty}</div>
+      ) : (
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))", gap: 12 }}>
+          {records.map((r) => (
+            <div
+              key={r.id}
+              style={{
+                border: r.id === open ? "2px solid #0f172a" : "1px solid #e2e8f0",
+                borderRadius: 12,
+                overflow: "hidden",
+                background: "white",
+              }}
+            >
+              <img
+                src={r.posters[0]?.posterUrl ?? r.originalUrl}
+                alt={r.params.titleText || t.poster.alt}
+                onClick={() => setOpen(r.id === open ? null : r.id)}
+                style={{ width: "100%", height: 220, objectFit: "contain", cursor: "pointer", display: "block" }}
+              />
+              <div style={{ padding: 8, fontSize: 13 }}>
+                <div style={{ fontWeight: 600 }}>{r.params.titleText || t.styles[r.params.style]}</div>
+                <div style={{ color: "#64748b" }}>
+                  {childName(r.childId) && `${childName(r.childId)} · `}
+                  {new Date(r.createdAt).toLocaleDateString(intl)} · {t.gallery.posters(r.posters.length)}
+                </div>
+                <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                  <button
+                    onClick={() => r.posters[0] && saveAs(r.posters[0].posterUrl, `kids-poster-${r.id.slice(0, 8)}.png`)}
+                    title={t.gallery.download}
+                  >
+                    <Download size={14} />
+                  </button>
+                  <button onClick={() => void regenerate(r)} disabled={!!busy} title={t.gallery.regenerateTitle}>
+                    {busy === r.id ? <Loader2 size={14} className="spin" /> : <RefreshCw size={14} />}
+                  </button>
+                  <button onClick={() => void remove(r)} disabled={!!busy} title={t.gallery.delete} style={{ marginLeft: "auto" }}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {records.length < total && (
+        <button onClick={() => void load(records.length)} disabled={loading} style={{ marginTop: 16 }}>
+          {loading ? t.gallery.loading : t.gallery.loadMore}
+        </button>
+      )}
+
+      <style>{`.spin { animation: spin 1s linear infinite; } @keyframes spin {from{transform:rotate(0)} to{transform:rotate(360deg)}}`}</style>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useI18n } from "./LocaleProvider";
+
+type Tool = "brush" | "lasso";
+
+type Props = {
+  src: string;
+  onMaskChange: (mask: Blob | null) => void;
+  maxHeight?: number;
+};
+
+const PAINT = "rgba(236, 72, 153, 1)";
+
+// Paints a repaint mask over the poster. The canvas has the image's natural
+// size; painted pixels are opaque, everything else transparent.
+export default function RegionMaskEditor({ src, onMaskChange, maxHeight = 520 }: Props) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [size, setSize] = useState<{ w: number; h: number } | null>(null);
+  const [tool, setTool] = useState<Tool>("brush");
+  const [brush, setBrush] = useState<number>(48);
+  const [painted, setPainted] = useState<boolean>(false);
+  const stroke = useRef<Array<[number, number]> | null>(null);
+  // The latest callback, so a new one doesn't count as a new image.
+  const maskChange = useRef(onMaskChange);
+
+  useEffect(() => {
+    maskChange.current = onMaskChange;
+  }, [onMaskChange]);
+
+  useEffect(() => {
+    setSize(null);
+    setPainted(false);
+    maskChange.current(null);
+  }, [src]);
+
+  function toPoint(e: React.PointerEvent<HTMLCanvasElement>): [number, number] {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return [
+      ((e.clientX - rect.left) / rect.width) * canvas.width,
+      ((e.clientY - rect.top) / rect.height) * canvas.height,
+    ];
+  }
+
+  function drawSegment(from: [number, number], to: [number, number]) {
+    const ctx = canvasRef.current!.getContext("2d")!;
+    ctx.strokeStyle = PAINT;
+    ctx.lineWidth = brush;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(...from);
+    ctx.lineTo(...to);
+    ctx.stroke();
+  }
+
+  function onPointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const p = toPoint(e);
+    stroke.current = [p];
+    if (tool === "brush") drawSegment(p, p);
+  }
+
+  function onPointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    const points = stroke.current;
+    if (!points) return;
+    const p = toPoint(e);
+    const last = points[points.length - 1];
+    points.push(p);
+    if (tool === "brush") {
+      drawSegment(last, p);
+    } else {
+      // Lasso outline preview; filled on release
+      const ctx = canvasRef.current!.getContext("2d")!;
+      ctx.strokeStyle = PAINT;
+      ctx.lineWidth = Math.max(2, canvasRef.current!.width / 300);
+      ctx.beginPath();
+      ctx.moveTo(...last);
+      ctx.lineTo(...p);
+      ctx.stroke();
+    }
+  }
+
+  function onPointerUp() {
+    const points = stroke.current;
+    stroke.current = null;
+    if (!points) return;
+    if (tool === "lasso" && points.length > 2) {
+      const ctx = canvasRef.current!.getContext("2d")!;
+      ctx.fillStyle = PAINT;
+      ctx.beginPath();
+      ctx.moveTo(...points[0]);
+      for (const p of points.slice(1)) ctx.lineTo(...p);
+      ctx.closePath();
+      ctx.fill();
+    }
+    setPainted(true);
+    canvasRef.current!.toBlob((blob) => onMaskChange(blob), "image/png");
+  }
+
+  function clear() {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    setPainted(false);
+    onMaskChange(null);
+  }
+
+  return (
+    <div>
+      <div style={{ position: "relative", display: "inline-block", lineHeight: 0 }}>
+        <img
+          src={src}
+          alt={t.poster.alt}
+          onLoad={(e) => setSize({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })}
+          style={{ maxWidth: "100%", maxHeight, display: "block" }}
+        />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.w}
+            height={size.h}
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={onPointerUp}
+            style={{
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              opacity: 0.45,
+              cursor: "crosshair",
+              touchAction: "none",
+            }}
+          />
+        )}
+      </div>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginTop: 8 }}>
+        <select value={tool} onChange={(e) => setTool(e.target.value as Tool)}>
+          <option value="brush">{t.mask.brush}</option>
+          <option value="lasso">{t.mask.lasso}</option>
+        </select>
+        {tool === "brush" && (
+          <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            {t.mask.size}
+            <input type="range" min={8} max={200} value={brush} onChange={(e) => setBrush(Number(e.target.value))} />
+          </label>
+        )}
+        <button onClick={clear} disabled={!painted}>
+          {t.mask.clear}
+        </button>
+      </div>
+    </div>
+  );
+}
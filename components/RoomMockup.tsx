@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { ApiError, readErrorEnvelope } from "@/lib/errors";
+import { DEFAULT_MOCKUP_OPTIONS, FrameId, FRAMES, SOFA_WIDTH_MM, WALL_COLOURS, WallColourId } from "@/lib/frames";
+import { errorText } from "@/lib/i18n";
+import { Orientation, PAPER_FORMATS, PaperFormat } from "@/lib/paper";
+import { useI18n } from "./LocaleProvider";
+
+type Props = {
+  posterKey: string;
+  // From the print export controls, so the mockup matches the print.
+  format: PaperFormat;
+  orientation: Orientation;
+  matMm: number;
+  onError?: (message: string) => void;
+};
+
+// The poster framed on a living-room wall, rendered on the server to scale.
+export default function RoomMockup({ posterKey, format, orientation, matMm, onError = () => {} }: Props) {
+  const { t } = useI18n();
+  const [frame, setFrame] = useState<FrameId>(DEFAULT_MOCKUP_OPTIONS.frame);
+  const [mat, setMat] = useState<boolean>(DEFAULT_MOCKUP_OPTIONS.mat);
+  const [wall, setWall] = useState<string>(DEFAULT_MOCKUP_OPTIONS.wall);
+  const [url, setUrl] = useState<string>("");
+  const [rendering, setRendering] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl = "";
+    // Debounced so dragging the colour picker doesn't queue a render per step.
+    const timer = setTimeout(async () => {
+      setRendering(true);
+      try {
+        const body = new FormData();
+        body.append("key", posterKey);
+        body.append("format", format);
+        body.append("orientation", orientation);
+        body.append("frame", frame);
+        body.append("mat", String(mat));
+        body.append("matMm", String(matMm));
+        body.append("wall", wall);
+        const res = await fetch("/api/mockup", { method: "POST", body });
+        if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+        objectUrl = URL.createObjectURL(await res.blob());
+        if (!cancelled) setUrl(objectUrl);
+      } catch (err: unknown) {
+        if (!cancelled) onError(t.mockup.failed(errorText(t, err)));
+      } finally {
+        if (!cancelled) setRendering(false);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (objectUrl) setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+    };
+  }, [posterKey, format, orientation, matMm, frame, mat, wall, onError, t]);
+
+  function download() {
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `kids-poster-mockup-${format}.png`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  }
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", width: "100%", height: "100%", padding: 8, gap: 6 }}>
+      <div style={{ flex: 1, minHeight: 0, display: "flex", alignItems: "center", justifyContent: "center", position: "relative" }}>
+        {url ? (
+          <img src={url} alt={t.mockup.alt} style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }} />
+        ) : (
+          <span style={{ color: "#94a3b8" }}>{t.mockup.rendering}</span>
+        )}
+        {rendering && url && <Loader2 className="spin" style={{ position: "absolute", top: 8, right: 8 }} />}
+      </div>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8, alignItems: "center", fontSize: 13 }}>
+        <select value={frame} onChange={(e) => setFrame(e.target.value as FrameId)} title={t.mockup.frame}>
+          {(Object.keys(FRAMES) as FrameId[]).map((f) => (
+            <option key={f} value={f}>
+              {t.mockup.frames[f]}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+          <input type="checkbox" checked={mat} onChange={(e) => setMat(e.target.checked)} />
+          {t.mockup.mat}
+        </label>
+        {(Object.keys(WALL_COLOURS) as WallColourId[]).map((id) => (
+          <button
+            key={id}
+            onClick={() => setWall(WALL_COLOURS[id].hex)}
+            title={t.mockup.walls[id]}
+            style={{
+              width: 20,
+              height: 20,
+              padding: 0,
+              borderRadius: 999,
+              background: WALL_COLOURS[id].hex,
+              border: wall === WALL_COLOURS[id].hex ? "2px solid #0f172a" : "1px solid #cbd5e1",
+            }}
+          />
+        ))}
+        <input
+          type="color"
+          value={wall}
+          onChange={(e) => setWall(e.target.value.toUpperCase())}
+          title={t.mockup.customWall}
+          style={{ width: 24, height: 24, padding: 0, border: "none" }}
+        />
+        <span style={{ color: "#64748b" }}>
+          {PAPER_FORMATS[format].label} · {t.mockup.sofa(SOFA_WIDTH_MM / 10)}
+        </span>
+        <button onClick={download} disabled={!url} style={{ marginLeft: "auto", display: "inline-flex", alignItems: "center", gap: 4 }}>
+          <Download size={14} /> {t.mockup.download}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, Share2, XCircle } from "lucide-react";
+import { errorText } from "@/lib/i18n";
+import { passOnLink, revokeShare } from "@/lib/shares/client";
+import type { ShareView } from "@/lib/shares/types";
+import { useI18n } from "./LocaleProvider";
+
+// The owner's controls under a shared poster: pass the link on, or revoke it.
+// `onRevoked` defaults to showing that the link is gone.
+export default function ShareActions({ share, onRevoked }: { share: ShareView; onRevoked?: () => void }) {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState<boolean>(false);
+  const [revoked, setRevoked] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+
+  async function pass() {
+    try {
+      const how = await passOnLink(share);
+      if (how === "copied") setMessage(t.share.copied);
+    } catch {
+      setMessage(t.share.copyManually);
+    }
+  }
+
+  async function revoke() {
+    if (!confirm(t.share.confirmStop)) return;
+    setBusy(true);
+    try {
+      await revokeShare(share.id);
+      setRevoked(true);
+      setMessage("");
+      onRevoked?.();
+    } catch (err: unknown) {
+      setMessage(t.share.stopFailed(errorText(t, err)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (revoked && !onRevoked) return <div style={{ color: "#475569", fontSize: 14 }}>{t.share.noLongerShared}</div>;
+
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <div style={{ display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          readOnly
+          value={share.url}
+          onFocus={(e) => e.target.select()}
+          aria-label={t.share.link}
+          style={{ flex: "1 1 220px", padding: "6px 8px", border: "1px solid #cbd5e1", borderRadius: 8, fontSize: 13 }}
+        />
+        <button onClick={() => void pass()} title={t.share.passOn} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          <Share2 size={14} /> {t.share.passOnButton}
+        </button>
+        <button onClick={() => void revoke()} disabled={busy} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+          {busy ? <Loader2 size={14} className="spin" /> : <XCircle size={14} />} {t.share.stop}
+        </button>
+      </div>
+      {message && <div style={{ color: "#475569", fontSize: 13 }}>{message}</div>}
+      <style>{`.spin { animation: spin 1s linear infinite; } @keyframes spin {from{transform:rotate(0)} to{transform:rotate(360deg)}}`}</style>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+// instrumentation.ts
+// Runs once when a server starts. A production server refuses to start
+// without the secrets that would otherwise fall back to keys in the source,
+// without a trusted client address to rate-limit by, or with a database it
+// can't open.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { requireSecret } = await import("./lib/secrets");
+    requireSecret("RATE_LIMIT_SECRET", "");
+    const { requireClientAddress } = await import("./lib/ratelimit");
+    requireClientAddress();
+
+    const { getPosterRepository } = await import("./lib/posters");
+    getPosterRepository();
+    if (process.env.NODE_ENV === "production" && (process.env.POSTER_REPOSITORY || "memory") === "memory") {
+      console.warn(
+        "POSTER_REPOSITORY is memory: the gallery, child profiles, shares and result cache are lost when the server stops."
+      );
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// lib/batch/client.ts
+// Browser-side helper for dropping whole folders of drawings.
+
+type Entry = FileSystemEntry;
+
+function readEntry(entry: Entry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve) => (entry as FileSystemFileEntry).file((f) => resolve([f]), () => resolve([])));
+  }
+  if (!entry.isDirectory) return Promise.resolve([]);
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns at most ~100 entries per call; read until empty.
+  return new Promise((resolve) => {
+    const all: Entry[] = [];
+    const next = () =>
+      reader.readEntries(
+        (batch) => {
+          if (!batch.length) {
+            void Promise.all(all.map(readEntry)).then((lists) => resolve(lists.flat()));
+            return;
+          }
+          all.push(...batch);
+          next();
+        },
+        () => resolve([])
+      );
+    next();
+  });
+}
+
+// The files of a drop, with dropped folders expanded recursively and sorted
+// by name so a term's folder comes out in order.
+export async function readDroppedFiles(data: DataTransfer): Promise<File[]> {
+  const entries = Array.from(data.items ?? [])
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is Entry => !!entry);
+  if (!entries.some((entry) => entry.isDirectory)) return Array.from(data.files ?? []);
+  const files = (await Promise.all(entries.map(readEntry))).flat();
+  return files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
@@ -0,0 +1,183 @@
+// lib/batch/index.ts
+// Batch mode: one settings set applied to many drawings. The drawings go
+// through a bounded-concurrency queue inside a single job, and the finished
+// posters can be downloaded together as a ZIP with a manifest.
+
+import { strToU8, zipSync, Zippable } from "fflate";
+import { generateAndRecord } from "../gallery";
+import { ApiError, ErrorEnvelope } from "../errors";
+import { buildPrompt, describeGenerateError, GenerateParams } from "../generate";
+import { PosterRepository } from "../posters";
+import { ImageProvider } from "../providers";
+import { StorageDriver } from "../storage";
+import { BatchResult, MAX_BATCH_ITEMS } from "./types";
+
+export * from "./types";
+
+// How many drawings are generated at the same time (BATCH_CONCURRENCY, 1–8).
+export function batchConcurrency(): number {
+  const n = Number(process.env.BATCH_CONCURRENCY);
+  return Number.isInteger(n) && n >= 1 ? Math.min(n, 8) : 2;
+}
+
+// How many drawings fit in `budgetMs` when each may take `itemTimeoutMs` and
+// `concurrency` of them run at once.
+export function batchCapacity(budgetMs: number, itemTimeoutMs: number, concurrency = batchConcurrency()): number {
+  return Math.min(MAX_BATCH_ITEMS, concurrency * Math.floor(budgetMs / itemTimeoutMs));
+}
+
+// Run `worker` over `items` with at most `limit` running at once, starting
+// them in order. `worker` must not throw.
+export async function runQueue<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const i = next++;
+      await worker(items[i], i);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+type BatchOptions = {
+  images: File[];
+  params: GenerateParams;
+  ownerId: string;
+  childId?: string;
+  provider: ImageProvider;
+  storage: StorageDriver;
+  repository: PosterRepository;
+  // Per drawing, from when it leaves the queue.
+  timeoutMs: number;
+  // Epoch ms the batch must be done by. A drawing whose full timeout no
+  // longer fits isn't started.
+  deadline?: number;
+  concurrency?: number;
+  // Called with a snapshot and the overall 0–100 progress on every change.
+  onUpdate?: (batch: BatchResult, progress: number) => void;
+  // Called once for every drawing that fails.
+  onFailure?: (failure: ErrorEnvelope) => void;
+  // Asked before each fidelity re-roll (see renderArt).
+  reroll?: () => Promise<boolean>;
+};
+
+// Generate and record every drawing. A failed drawing is marked on its item
+// and the rest carry on; the batch only fails if all of them do.
+export async function processBatch({
+  images,
+  params,
+  ownerId,
+  childId,
+  provider,
+  storage,
+  repository,
+  timeoutMs,
+  deadline = Infinity,
+  concurrency = batchConcurrency(),
+  onUpdate = () => {},
+  onFailure = () => {},
+  reroll,
+}: BatchOptions): Promise<BatchResult> {
+  const batch: BatchResult = {
+    params,
+    childId,
+    items: images.map((image, i) => ({ name: image.name || `drawing-${i + 1}`, status: "queued", progress: 0 })),
+  };
+  const publish = () => {
+    const total = batch.items.reduce((sum, item) => sum + item.progress, 0);
+    onUpdate({ ...batch, items: batch.items.map((item) => ({ ...item })) }, Math.round(total / batch.items.length));
+  };
+  publish();
+
+  // Rethrown when every drawing fails, so the job gets its error envelope.
+  let firstError: unknown;
+  await runQueue(images, concurrency, async (image, i) => {
+    const item = batch.items[i];
+    if (Date.now() + timeoutMs > deadline) {
+      const failure: ErrorEnvelope = {
+        error: "The batch ran out of time before this drawing. Send it again in a new batch.",
+        code: "timeout",
+        retryable: true,
+      };
+      onFailure(failure);
+      Object.assign(item, { status: "failed", progress: 100, error: failure.error, code: failure.code });
+      batch.timedOut = true;
+      firstError ??= new ApiError(failure);
+      publish();
+      return;
+    }
+    Object.assign(item, { status: "running", stage: "preparing" });
+    publish();
+    try {
+      const { posters, recordId } = await generateAndRecord({
+        image,
+        params,
+        provider,
+        storage,
+        repository,
+        ownerId,
+        childId,
+        timeoutMs,
+        reroll,
+        report: (stage, progress) => {
+          Object.assign(item, { stage, progress });
+          publish();
+        },
+      });
+      Object.assign(item, { status: "done", stage: "done", progress: 100, posters, recordId });
+    } catch (err) {
+      firstError ??= err;
+      const failure = describeGenerateError(err);
+      onFailure(failure);
+      Object.assign(item, { status: "failed", stage: undefined, progress: 100, error: failure.error, code: failure.code });
+    }
+    publish();
+  });
+
+  if (batch.items.every((item) => item.status === "failed")) {
+    throw firstError;
+  }
+  return batch;
+}
+
+// "07-anna-og-hunden" — numbered so the ZIP lists drawings in upload order.
+function entryName(index: number, count: number, name: string): string {
+  const base = name.replace(/\.[^.]+$/, "").replace(/[^\p{L}\p{N}_-]+/gu, "-").replace(/^-+|-+$/g, "");
+  return `${String(index + 1).padStart(String(count).length, "0")}-${base || "drawing"}`;
+}
+
+// Every stored poster of the batch plus a manifest.json with the settings,
+// the prompt and each drawing's status and files.
+export async function buildBatchZip(
+  storage: StorageDriver,
+  batch: BatchResult,
+  meta: { id: string; createdAt: number }
+): Promise<Uint8Array> {
+  const files: Zippable = {};
+  const items = [];
+  for (const [i, item] of batch.items.entries()) {
+    const base = entryName(i, batch.items.length, item.name);
+    const posters = [];
+    for (const [j, poster] of (item.posters ?? []).entries()) {
+      const stored = await storage.get(poster.key);
+      if (!stored) continue;
+      const file = `${base}${item.posters!.length > 1 ? `-${j + 1}` : ""}.${stored.contentType === "image/png" ? "png" : "jpg"}`;
+      // Posters are already compressed; storing them keeps the ZIP fast.
+      files[file] = [stored.bytes, { level: 0 }];
+      posters.push({ file, fidelity: poster.fidelity, lowFidelity: poster.lowFidelity });
+    }
+    items.push({ source: item.name, status: item.status, error: item.error, recordId: item.recordId, posters });
+  }
+
+  const manifest = {
+    batchId: meta.id,
+    createdAt: new Date(meta.createdAt).toISOString(),
+    childId: batch.childId,
+    params: batch.params,
+    prompt: buildPrompt(batch.params).trim(),
+    timedOut: batch.timedOut,
+    items,
+  };
+  files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(files);
+}
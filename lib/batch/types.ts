@@ -0,0 +1,37 @@
+// lib/batch/types.ts
+// Client-safe: no server-only imports.
+
+import type { ErrorCode } from "../errors";
+import type { GenerateParams, PosterResult } from "../generate";
+import type { JobStatus } from "../jobs/types";
+
+// A batch has to finish within one request's time budget: at the default
+// BATCH_CONCURRENCY of 2, 10 drawings are five rounds of generations.
+export const MAX_BATCH_ITEMS = 10;
+
+// One drawing in a batch. `progress` is 0–100 like a job's.
+export type BatchItem = {
+  name: string;
+  status: JobStatus;
+  stage?: string;
+  progress: number;
+  posters?: PosterResult[];
+  recordId?: string;
+  error?: string;
+  code?: ErrorCode;
+};
+
+// The result of a batch job. It is published while the batch runs, so
+// `items` shows every drawing's status before the job is done.
+export type BatchResult = {
+  params: GenerateParams;
+  childId?: string;
+  items: BatchItem[];
+  // The time budget ran out before every drawing could start; those are
+  // marked failed.
+  timedOut?: boolean;
+};
+
+export function isBatchResult(value: unknown): value is BatchResult {
+  return Array.isArray((value as BatchResult | undefined)?.items);
+}
@@ -0,0 +1,98 @@
+// lib/cache/index.ts
+// Generation results cached by drawing and settings: the same upload with the
+// same parameters returns the earlier posters instead of calling the provider.
+
+import { createHash } from "crypto";
+import { toRecordView } from "../gallery";
+import { GenerateParams, GenerateResult } from "../generate";
+import { PosterRepository } from "../posters";
+import { StorageDriver } from "../storage";
+import { createMemoryResultCache } from "./memory";
+import { createSqliteResultCache } from "./sqlite";
+import { CachePolicy, ResultCache } from "./types";
+
+export * from "./types";
+export { createMemoryResultCache, createSqliteResultCache };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RESULT_CACHE_MAX_ENTRIES (default 1000; 0 turns caching off) and
+// RESULT_CACHE_TTL_DAYS (default 30).
+export function cachePolicy(): CachePolicy {
+  const max = Number(process.env.RESULT_CACHE_MAX_ENTRIES);
+  const days = Number(process.env.RESULT_CACHE_TTL_DAYS);
+  return {
+    maxEntries: Number.isInteger(max) && max >= 0 ? max : 1000,
+    ttlMs: (Number.isFinite(days) && days > 0 ? days : 30) * DAY_MS,
+  };
+}
+
+const globalForCache = globalThis as unknown as { __resultCache?: ResultCache };
+
+// Stored next to the poster records: POSTER_REPOSITORY picks "memory"
+// (default) or "sqlite" (file at POSTER_DB_PATH).
+export function getResultCache(): ResultCache {
+  if (globalForCache.__resultCache) return globalForCache.__resultCache;
+  const name = process.env.POSTER_REPOSITORY || "memory";
+  switch (name) {
+    case "sqlite":
+      globalForCache.__resultCache = createSqliteResultCache(
+        process.env.POSTER_DB_PATH || ".data/posters.db",
+        cachePolicy()
+      );
+      break;
+    case "memory":
+      globalForCache.__resultCache = createMemoryResultCache(cachePolicy());
+      break;
+    default:
+      throw new Error(`Unknown POSTER_REPOSITORY "${name}" (expected "sqlite" or "memory")`);
+  }
+  return globalForCache.__resultCache;
+}
+
+// SHA-256 of the uploaded bytes and every setting that changes the output,
+// normalized so e.g. colour case and stray whitespace in the title don't
+// count as different settings. The owner is part of it: a result is only
+// reused for the session whose gallery record it is.
+export function cacheKey(image: Uint8Array, params: GenerateParams, ownerId: string): string {
+  const titleText = params.titleText.trim().normalize("NFC");
+  const { typography } = params;
+  const normalized = {
+    style: params.style,
+    accent: params.accent.toUpperCase(),
+    palette: params.palette.map((c) => c.toUpperCase()),
+    enforcePalette: params.enforcePalette,
+    allowShapes: params.allowShapes,
+    aiText: params.aiText,
+    titleText,
+    size: params.size,
+    variations: params.variations,
+    fidelity: params.fidelity,
+    // The overlay is only drawn when there is a title.
+    typography:
+      typography && titleText
+        ? { layout: typography.layout, font: typography.font, caption: typography.caption.trim().normalize("NFC") }
+        : null,
+  };
+  return createHash("sha256").update(image).update(JSON.stringify({ ...normalized, ownerId })).digest("hex");
+}
+
+// The cached result for `key`, counted as a hit or a miss. An entry whose
+// gallery record has been deleted is dropped and counts as a miss.
+export async function lookupCachedResult(
+  cache: ResultCache,
+  repository: PosterRepository,
+  storage: StorageDriver,
+  key: string
+): Promise<GenerateResult | null> {
+  const entry = await cache.get(key);
+  const record = entry ? await repository.get(entry.recordId) : null;
+  if (!entry || !record) {
+    if (entry) await cache.delete(key);
+    await cache.count("miss");
+    return null;
+  }
+  await cache.count("hit", key);
+  const { posters } = await toRecordView(storage, record);
+  return { posters, recordId: record.id, cached: true };
+}
@@ -0,0 +1,62 @@
+// lib/cache/memory.ts
+
+import { CacheEntry, CachePolicy, ResultCache } from "./types";
+
+// Process-local cache; entries are lost on restart.
+export function createMemoryResultCache(policy: CachePolicy): ResultCache {
+  const entries = new Map<string, CacheEntry>();
+  const counts = { hits: 0, misses: 0, evictions: 0 };
+
+  function evict() {
+    const cutoff = Date.now() - policy.ttlMs;
+    for (const [key, entry] of entries) {
+      if (entry.lastUsedAt >= cutoff) continue;
+      entries.delete(key);
+      counts.evictions++;
+    }
+    // Map order is insertion order; `count` re-inserts used entries, so the
+    // first ones are the least recently used.
+    for (const key of entries.keys()) {
+      if (entries.size <= policy.maxEntries) break;
+      entries.delete(key);
+      counts.evictions++;
+    }
+  }
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.lastUsedAt < Date.now() - policy.ttlMs) {
+        entries.delete(key);
+        counts.evictions++;
+        return null;
+      }
+      return { ...entry };
+    },
+    async set(key, recordId) {
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, { key, recordId, createdAt: now, lastUsedAt: now, hits: 0 });
+      evict();
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async count(outcome, key) {
+      if (outcome === "miss") {
+        counts.misses++;
+        return;
+      }
+      counts.hits++;
+      const entry = key ? entries.get(key) : undefined;
+      if (!entry) return;
+      entries.delete(entry.key);
+      entries.set(entry.key, { ...entry, lastUsedAt: Date.now(), hits: entry.hits + 1 });
+    },
+    async stats() {
+      return { ...policy, ...counts, entries: entries.size };
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// lib/cache/sqlite.ts
+
+import { openDatabase } from "../sqlite";
+import { CacheEntry, CachePolicy, ResultCache } from "./types";
+
+type Row = {
+  key: string;
+  record_id: string;
+  created_at: number;
+  last_used_at: number;
+  hits: number;
+};
+
+// Cache entries in the same SQLite file as the poster records. The
+// hit/miss/eviction counters are kept per process.
+export function createSqliteResultCache(file: string, policy: CachePolicy): ResultCache {
+  const db = openDatabase(file);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS result_cache (
+      key TEXT PRIMARY KEY,
+      record_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER NOT NULL,
+      hits INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS result_cache_last_used ON result_cache (last_used_at);
+  `);
+
+  const upsert = db.prepare(`
+    INSERT INTO result_cache (key, record_id, created_at, last_used_at, hits)
+    VALUES (@key, @record_id, @now, @now, 0)
+    ON CONFLICT (key) DO UPDATE SET
+      record_id = excluded.record_id,
+      created_at = excluded.created_at,
+      last_used_at = excluded.last_used_at,
+      hits = 0
+  `);
+  const selectOne = db.prepare<[string], Row>("SELECT * FROM result_cache WHERE key = ?");
+  const remove = db.prepare<[string]>("DELETE FROM result_cache WHERE key = ?");
+  const touch = db.prepare("UPDATE result_cache SET last_used_at = @now, hits = hits + 1 WHERE key = @key");
+  const expire = db.prepare("DELETE FROM result_cache WHERE last_used_at < @cutoff");
+  const trim = db.prepare(`
+    DELETE FROM result_cache WHERE key IN (
+      SELECT key FROM result_cache ORDER BY last_used_at DESC LIMIT -1 OFFSET @max
+    )
+  `);
+  const countAll = db.prepare<[], { n: number }>("SELECT COUNT(*) AS n FROM result_cache");
+  const counts = { hits: 0, misses: 0, evictions: 0 };
+
+  function fromRow(row: Row): CacheEntry {
+    return {
+      key: row.key,
+      recordId: row.record_id,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      hits: row.hits,
+    };
+  }
+
+  return {
+    name: "sqlite",
+    async get(key) {
+      const row = selectOne.get(key);
+      if (!row) return null;
+      if (row.last_used_at < Date.now() - policy.ttlMs) {
+        counts.evictions += remove.run(key).changes;
+        return null;
+      }
+      return fromRow(row);
+    },
+    async set(key, recordId) {
+      upsert.run({ key, record_id: recordId, now: Date.now() });
+      counts.evictions += expire.run({ cutoff: Date.now() - policy.ttlMs }).changes;
+      counts.evictions += trim.run({ max: policy.maxEntries }).changes;
+    },
+    async delete(key) {
+      remove.run(key);
+    },
+    async count(outcome, key) {
+      if (outcome === "miss") {
+        counts.misses++;
+        return;
+      }
+      counts.hits++;
+      if (key) touch.run({ key, now: Date.now() });
+    },
+    async stats() {
+      return { ...policy, ...counts, entries: countAll.get()?.n ?? 0 };
+    },
+  };
+}
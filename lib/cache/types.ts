@@ -0,0 +1,28 @@
+// lib/cache/types.ts
+
+// A cached generation: the gallery record that holds its posters.
+export type CacheEntry = {
+  key: string;
+  recordId: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+};
+
+// Entries unused for `ttlMs` expire; beyond `maxEntries` the least recently
+// used are evicted.
+export type CachePolicy = { maxEntries: number; ttlMs: number };
+
+// `hits`, `misses` and `evictions` count since the server started.
+export type CacheStats = CachePolicy & { entries: number; hits: number; misses: number; evictions: number };
+
+export interface ResultCache {
+  readonly name: string;
+  // Expired entries are dropped and read as missing.
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, recordId: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Count a lookup; a hit also marks the entry as used.
+  count(outcome: "hit" | "miss", key?: string): Promise<void>;
+  stats(): Promise<CacheStats>;
+}
@@ -0,0 +1,19 @@
+// lib/children/caption.ts
+// Automatic poster captions from a child profile. Client-safe.
+
+import { getMessages, intlLocale, Locale } from "../i18n";
+import type { Child } from "./types";
+
+// Whole years between `birthDate` (YYYY-MM-DD) and `at`.
+export function childAge(birthDate: string, at: Date = new Date()): number {
+  const [y, m, d] = birthDate.split("-").map(Number);
+  let age = at.getFullYear() - y;
+  if (at.getMonth() + 1 < m || (at.getMonth() + 1 === m && at.getDate() < d)) age--;
+  return Math.max(0, age);
+}
+
+// "Ida, 5 år — oktober 2026" in Danish, "Ida, age 5 — October 2026" in English.
+export function childCaption(child: Pick<Child, "name" | "birthDate">, locale: Locale, at: Date = new Date()): string {
+  const month = new Intl.DateTimeFormat(intlLocale(locale), { month: "long", year: "numeric" }).format(at);
+  return getMessages(locale).children.caption(child.name, childAge(child.birthDate, at), month);
+}
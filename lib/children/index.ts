@@ -0,0 +1,93 @@
+// lib/children/index.ts
+
+import type { ErrorEnvelope } from "../errors";
+import { MAX_PALETTE, MIN_PALETTE, parsePalette } from "../palettes";
+import { isStyleId, STYLE_IDS } from "../styles";
+import { createMemoryChildRepository } from "./memory";
+import { createSqliteChildRepository } from "./sqlite";
+import { Child, ChildInput, ChildRepository, MAX_CHILD_NAME } from "./types";
+
+export * from "./types";
+export { childAge, childCaption } from "./caption";
+export { createMemoryChildRepository, createSqliteChildRepository };
+
+const globalForChildren = globalThis as unknown as { __childRepository?: ChildRepository };
+
+// Profiles live next to the poster records: POSTER_REPOSITORY picks "memory"
+// (default) or "sqlite" (file at POSTER_DB_PATH).
+export function getChildRepository(): ChildRepository {
+  if (globalForChildren.__childRepository) return globalForChildren.__childRepository;
+  const name = process.env.POSTER_REPOSITORY || "memory";
+  switch (name) {
+    case "sqlite":
+      globalForChildren.__childRepository = createSqliteChildRepository(
+        process.env.POSTER_DB_PATH || ".data/posters.db"
+      );
+      break;
+    case "memory":
+      globalForChildren.__childRepository = createMemoryChildRepository();
+      break;
+    default:
+      throw new Error(`Unknown POSTER_REPOSITORY "${name}" (expected "sqlite" or "memory")`);
+  }
+  return globalForChildren.__childRepository;
+}
+
+// The profile if `ownerId` (the caller's session, null without one) owns it.
+// Anyone else gets null, as if it didn't exist.
+export async function getOwnedChild(
+  repository: ChildRepository,
+  id: string,
+  ownerId: string | null
+): Promise<Child | null> {
+  const child = await repository.get(id);
+  return child && ownerId && child.ownerId === ownerId ? child : null;
+}
+
+function invalid(field: string, error: string): { error: ErrorEnvelope } {
+  return { error: { error, code: "invalid_param", retryable: false, details: { field } } };
+}
+
+// Validate a profile from a JSON body. `partial` allows missing fields (for
+// updates); `null` clears an optional favourite. The error names the field.
+export function parseChildInput(
+  body: Record<string, unknown>,
+  partial = false
+): { input?: Partial<ChildInput>; error?: ErrorEnvelope } {
+  const input: Partial<ChildInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_CHILD_NAME) return invalid("name", `name must be 1–${MAX_CHILD_NAME} characters`);
+    input.name = name;
+  }
+
+  if (body.birthDate !== undefined || !partial) {
+    const birthDate = typeof body.birthDate === "string" ? body.birthDate : "";
+    const parsed = new Date(`${birthDate}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(birthDate) || isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== birthDate) {
+      return invalid("birthDate", "birthDate must be a date as YYYY-MM-DD");
+    }
+    if (parsed.getTime() > Date.now()) return invalid("birthDate", "birthDate cannot be in the future");
+    input.birthDate = birthDate;
+  }
+
+  if (body.palette === null) {
+    input.palette = undefined;
+  } else if (body.palette !== undefined) {
+    const palette = Array.isArray(body.palette) ? parsePalette(body.palette.join(",")) : null;
+    if (!palette) return invalid("palette", `palette must be ${MIN_PALETTE}–${MAX_PALETTE} #RRGGBB colours`);
+    input.palette = palette;
+  }
+
+  if (body.style === null) {
+    input.style = undefined;
+  } else if (body.style !== undefined) {
+    if (typeof body.style !== "string" || !isStyleId(body.style)) {
+      return invalid("style", `Unknown style "${body.style}" (expected one of ${STYLE_IDS.join(", ")})`);
+    }
+    input.style = body.style;
+  }
+
+  return { input };
+}
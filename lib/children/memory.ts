@@ -0,0 +1,29 @@
+// lib/children/memory.ts
+
+import { Child, ChildRepository } from "./types";
+
+// Process-local repository; profiles are lost on restart.
+export function createMemoryChildRepository(): ChildRepository {
+  const children = new Map<string, Child>();
+  const clone = (c: Child): Child => structuredClone(c);
+
+  return {
+    name: "memory",
+    async save(child) {
+      children.set(child.id, clone(child));
+    },
+    async get(id) {
+      const child = children.get(id);
+      return child ? clone(child) : null;
+    },
+    async list(ownerId) {
+      return [...children.values()]
+        .filter((c) => c.ownerId === ownerId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(clone);
+    },
+    async delete(id) {
+      return children.delete(id);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// lib/children/sqlite.ts
+
+import { openDatabase } from "../sqlite";
+import { StyleId } from "../styles";
+import { Child, ChildRepository } from "./types";
+
+type Row = {
+  id: string;
+  owner_id: string;
+  name: string;
+  birth_date: string;
+  palette: string | null;
+  style: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+// Child profiles in the same SQLite file as the poster records.
+export function createSqliteChildRepository(file: string): ChildRepository {
+  const db = openDatabase(file);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS children (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      birth_date TEXT NOT NULL,
+      palette TEXT,
+      style TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+  // Added after the first release. Profiles from before then belong to no
+  // session, so nobody sees them.
+  const columns = db.prepare<[], { name: string }>("PRAGMA table_info(children)").all();
+  if (!columns.some((c) => c.name === "owner_id")) {
+    db.exec("ALTER TABLE children ADD COLUMN owner_id TEXT NOT NULL DEFAULT ''");
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS children_owner_id ON children (owner_id)");
+
+  const upsert = db.prepare(`
+    INSERT INTO children (id, owner_id, name, birth_date, palette, style, created_at, updated_at)
+    VALUES (@id, @owner_id, @name, @birth_date, @palette, @style, @created_at, @updated_at)
+    ON CONFLICT (id) DO UPDATE SET
+      name = excluded.name,
+      birth_date = excluded.birth_date,
+      palette = excluded.palette,
+      style = excluded.style,
+      updated_at = excluded.updated_at
+  `);
+  const selectOne = db.prepare<[string], Row>("SELECT * FROM children WHERE id = ?");
+  const selectOwned = db.prepare<[string], Row>(
+    "SELECT * FROM children WHERE owner_id = ? ORDER BY name COLLATE NOCASE"
+  );
+  const remove = db.prepare<[string]>("DELETE FROM children WHERE id = ?");
+
+  function fromRow(row: Row): Child {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      name: row.name,
+      birthDate: row.birth_date,
+      palette: row.palette ? JSON.parse(row.palette) : undefined,
+      style: (row.style as StyleId | null) ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  return {
+    name: "sqlite",
+    async save(child) {
+      upsert.run({
+        id: child.id,
+        owner_id: child.ownerId,
+        name: child.name,
+        birth_date: child.birthDate,
+        palette: child.palette ? JSON.stringify(child.palette) : null,
+        style: child.style ?? null,
+        created_at: child.createdAt,
+        updated_at: child.updatedAt,
+      });
+    },
+    async get(id) {
+      const row = selectOne.get(id);
+      return row ? fromRow(row) : null;
+    },
+    async list(ownerId) {
+      return selectOwned.all(ownerId).map(fromRow);
+    },
+    async delete(id) {
+      return remove.run(id).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// lib/children/types.ts
+// Client-safe: no server-only imports.
+
+import type { StyleId } from "../styles";
+
+// A lightweight child profile. `palette` and `style` are favourites that
+// pre-fill the poster controls. `ownerId` is the anonymous session that
+// created it, the only one that can see or change it.
+export type Child = {
+  id: string;
+  ownerId: string;
+  name: string;
+  // ISO date, YYYY-MM-DD
+  birthDate: string;
+  palette?: string[];
+  style?: StyleId;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ChildInput = Pick<Child, "name" | "birthDate" | "palette" | "style">;
+
+// Persistence for child profiles. `list` returns one owner's by name.
+export interface ChildRepository {
+  readonly name: string;
+  save(child: Child): Promise<void>;
+  get(id: string): Promise<Child | null>;
+  list(ownerId: string): Promise<Child[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export const MAX_CHILD_NAME = 40;
@@ -0,0 +1,245 @@
+// lib/cleanup.ts
+// Cleanup for phone photos of drawings: find the sheet of paper, undo the
+// perspective, crop to it and whiten the paper background.
+
+import sharp from "sharp";
+
+// Corner in normalized image coordinates (0–1), ordered
+// top-left, top-right, bottom-right, bottom-left.
+export type Point = [number, number];
+export type Quad = [Point, Point, Point, Point];
+
+export const FULL_FRAME: Quad = [
+  [0, 0],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+];
+
+// Smallest area (share of the frame) a quad may enclose; anything less is
+// collapsed and the perspective warp can't be solved.
+const MIN_QUAD_AREA = 1e-3;
+
+// Signed area by the shoelace formula; positive when the corners run
+// clockwise on screen (TL, TR, BR, BL).
+function signedArea(q: Quad): number {
+  let sum = 0;
+  for (let i = 0; i < 4; i++) {
+    const [x1, y1] = q[i];
+    const [x2, y2] = q[(i + 1) % 4];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum / 2;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+}
+
+// Whether segments ab and cd cross each other.
+function crosses(a: Point, b: Point, c: Point, d: Point): boolean {
+  return cross(a, b, c) * cross(a, b, d) < 0 && cross(c, d, a) * cross(c, d, b) < 0;
+}
+
+// Four normalized corners in TL, TR, BR, BL order that enclose an area:
+// collapsed or self-intersecting (bow-tie) quads are rejected.
+export function parseQuad(raw: string): Quad | null {
+  let q: unknown;
+  try {
+    q = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(q) || q.length !== 4) return null;
+  for (const p of q) {
+    if (!Array.isArray(p) || p.length !== 2) return null;
+    if (!p.every((v) => typeof v === "number" && v >= 0 && v <= 1)) return null;
+  }
+  const quad = q as Quad;
+  if (signedArea(quad) < MIN_QUAD_AREA) return null;
+  if (crosses(quad[0], quad[1], quad[2], quad[3]) || crosses(quad[1], quad[2], quad[3], quad[0])) return null;
+  return quad;
+}
+
+function otsu(gray: Buffer): number {
+  const hist = new Array<number>(256).fill(0);
+  for (const v of gray) hist[v]++;
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * hist[i];
+  let sumB = 0;
+  let wB = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (!wB || wB === total) continue;
+    sumB += t * hist[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / (total - wB);
+    const between = wB * (total - wB) * (mB - mF) ** 2;
+    if (between > best) [best, threshold] = [between, t];
+  }
+  return threshold;
+}
+
+// Find the paper as the largest bright connected region and take its extreme
+// points as corners. Falls back to the full frame when nothing paper-like is found.
+export async function detectPaper(image: Uint8Array): Promise<Quad> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize(256, 256, { fit: "inside" })
+    .greyscale()
+    .blur(1.5)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+  const threshold = otsu(data);
+
+  // Largest 4-connected component of bright pixels.
+  const label = new Int32Array(width * height).fill(-1);
+  let bestLabel = -1;
+  let bestSize = 0;
+  const stack: number[] = [];
+  for (let start = 0, next = 0; start < data.length; start++) {
+    if (data[start] <= threshold || label[start] >= 0) continue;
+    let size = 0;
+    label[start] = next;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+      for (const n of neighbours) {
+        if (n >= 0 && n < data.length && label[n] < 0 && data[n] > threshold) {
+          label[n] = next;
+          stack.push(n);
+        }
+      }
+    }
+    if (size > bestSize) [bestSize, bestLabel] = [size, next];
+    next++;
+  }
+  if (bestSize < width * height * 0.2 || bestSize > width * height * 0.98) return FULL_FRAME;
+
+  let tl = [0, 0, Infinity];
+  let tr = [0, 0, -Infinity];
+  let br = [0, 0, -Infinity];
+  let bl = [0, 0, Infinity];
+  for (let i = 0; i < label.length; i++) {
+    if (label[i] !== bestLabel) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (x + y < tl[2]) tl = [x, y, x + y];
+    if (x - y > tr[2]) tr = [x, y, x - y];
+    if (x + y > br[2]) br = [x, y, x + y];
+    if (x - y < bl[2]) bl = [x, y, x - y];
+  }
+  const norm = ([x, y]: number[]): Point => [x / (width - 1), y / (height - 1)];
+  return [norm(tl), norm(tr), norm(br), norm(bl)];
+}
+
+// Solve the 3x3 homography mapping the unit square's corners onto `quad`
+// (in pixels), by Gaussian elimination on the standard 8x8 system.
+function homography(quad: Array<[number, number]>): number[] {
+  const src: Array<[number, number]> = [
+    [0, 0],
+    [1, 0],
+    [1, 1],
+    [0, 1],
+  ];
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const [u, v] = src[i];
+    const [x, y] = quad[i];
+    a.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    a.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+  for (let c = 0; c < 8; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < 8; r++) if (Math.abs(a[r][c]) > Math.abs(a[pivot][c])) pivot = r;
+    [a[c], a[pivot]] = [a[pivot], a[c]];
+    for (let r = 0; r < 8; r++) {
+      if (r === c) continue;
+      const f = a[r][c] / a[c][c];
+      for (let k = c; k < 9; k++) a[r][k] -= f * a[c][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+}
+
+const dist = (p: [number, number], q: [number, number]) => Math.hypot(p[0] - q[0], p[1] - q[1]);
+
+// Warp the quad to a flat rectangle sized by its longest edges (max 2048 px).
+export async function correctPerspective(image: Uint8Array, quad: Quad): Promise<sharp.Sharp> {
+  const { data, info } = await sharp(image).rotate().flatten({ background: "#ffffff" }).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width: sw, height: sh } = info;
+  const px = quad.map(([x, y]) => [x * (sw - 1), y * (sh - 1)] as [number, number]);
+
+  let ow = Math.max(dist(px[0], px[1]), dist(px[3], px[2]));
+  let oh = Math.max(dist(px[0], px[3]), dist(px[1], px[2]));
+  const scale = Math.min(1, 2048 / Math.max(ow, oh));
+  ow = Math.max(1, Math.round(ow * scale));
+  oh = Math.max(1, Math.round(oh * scale));
+
+  const h = homography(px);
+  const out = Buffer.alloc(ow * oh * 3);
+  for (let y = 0; y < oh; y++) {
+    const v = oh > 1 ? y / (oh - 1) : 0;
+    for (let x = 0; x < ow; x++) {
+      const u = ow > 1 ? x / (ow - 1) : 0;
+      const w = h[6] * u + h[7] * v + h[8];
+      const sx = Math.min(sw - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / w));
+      const sy = Math.min(sh - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / w));
+      // Bilinear sample
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      for (let c = 0; c < 3; c++) {
+        const top = data[(y0 * sw + x0) * 3 + c] * (1 - fx) + data[(y0 * sw + x1) * 3 + c] * fx;
+        const bottom = data[(y1 * sw + x0) * 3 + c] * (1 - fx) + data[(y1 * sw + x1) * 3 + c] * fx;
+        out[(y * ow + x) * 3 + c] = Math.round(top * (1 - fy) + bottom * fy);
+      }
+    }
+  }
+  return sharp(out, { raw: { width: ow, height: oh, channels: 3 } });
+}
+
+// Divide out uneven lighting (shadows, yellow lamp light) using a blurred
+// estimate of the bare paper, then push near-white to pure white.
+export async function whitenPaper(image: sharp.Sharp): Promise<sharp.Sharp> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+
+  // Small median removes the drawing's strokes; the blur smooths what is left.
+  const small = Math.max(8, Math.round(Math.max(width, height) / 8));
+  // (Two pipelines: sharp allows only one resize per pipeline.)
+  const reduced = await sharp(data, { raw: { width, height, channels } })
+    .resize(small, small, { fit: "inside" })
+    .median(5)
+    .blur(3)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const background = await sharp(reduced.data, { raw: reduced.info })
+    .resize(width, height, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  const out = Buffer.alloc(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const v = (data[i] / Math.max(1, background[i])) * 255;
+    out[i] = v >= 235 ? 255 : Math.round(Math.min(255, v));
+  }
+  return sharp(out, { raw: { width, height, channels } });
+}
+
+export async function cleanupPhoto(image: Uint8Array, quad: Quad, whiten = true): Promise<Uint8Array> {
+  let flat = await correctPerspective(image, quad);
+  if (whiten) flat = await whitenPaper(flat);
+  const jpg = await flat.jpeg({ quality: 90 }).toBuffer();
+  return new Uint8Array(jpg);
+}
@@ -0,0 +1,46 @@
+// lib/collage-layouts.ts
+// Multi-drawing layouts shared by the collage pipeline and the client controls.
+
+export const MIN_PIECES = 2;
+export const MAX_PIECES = 9;
+
+// `pieces` is the allowed number of drawings; `portrait` pieces are 2:3,
+// otherwise square.
+export const COLLAGE_LAYOUTS = {
+  grid: { label: "Grid", pieces: [MIN_PIECES, MAX_PIECES], portrait: false },
+  diptych: { label: "Diptych", pieces: [2, 2], portrait: true },
+  triptych: { label: "Triptych", pieces: [3, 3], portrait: true },
+} as const;
+
+export type CollageLayout = keyof typeof COLLAGE_LAYOUTS;
+
+// "poster" composes every piece onto one print; "set" keeps them as matching separate prints.
+export const COLLAGE_OUTPUTS = {
+  poster: "One poster",
+  set: "Matched set of prints",
+} as const;
+
+export type CollageOutput = keyof typeof COLLAGE_OUTPUTS;
+
+export function isCollageLayout(v: string): v is CollageLayout {
+  return Object.prototype.hasOwnProperty.call(COLLAGE_LAYOUTS, v);
+}
+
+export function isCollageOutput(v: string): v is CollageOutput {
+  return Object.prototype.hasOwnProperty.call(COLLAGE_OUTPUTS, v);
+}
+
+// Error message when `count` drawings don't fit `layout`.
+export function checkPieceCount(layout: CollageLayout, count: number): string | null {
+  const [min, max] = COLLAGE_LAYOUTS[layout].pieces;
+  if (count >= min && count <= max) return null;
+  const label = COLLAGE_LAYOUTS[layout].label;
+  return min === max ? `${label} needs exactly ${min} drawings` : `${label} needs ${min}–${max} drawings`;
+}
+
+// Columns × rows for `count` pieces: series layouts sit side by side,
+// grids are as square as possible.
+export function collageGrid(layout: CollageLayout, count: number): { columns: number; rows: number } {
+  const columns = layout === "grid" ? Math.ceil(Math.sqrt(count)) : count;
+  return { columns, rows: Math.ceil(count / columns) };
+}
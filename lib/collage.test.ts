@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { generateCollage } from "./collage";
+import { GenerateParams } from "./generate";
+import { createLocalStorage } from "./storage";
+
+const params: GenerateParams = {
+  style: "matisse",
+  accent: "#E63946",
+  palette: [],
+  enforcePalette: false,
+  allowShapes: false,
+  aiText: false,
+  titleText: "",
+  variations: 1,
+  fidelity: "off",
+  size: "1024x1024",
+};
+
+describe("generateCollage", () => {
+  it("aborts the other pieces when one fails", async () => {
+    const aborted: boolean[] = [];
+    let calls = 0;
+    const provider = {
+      name: "stub",
+      editImage: ({ signal }: { signal?: AbortSignal }) =>
+        new Promise<Uint8Array>((_, reject) => {
+          if (calls++ === 0) return reject(new RangeError("This drawing can't be used"));
+          signal?.addEventListener("abort", () => {
+            aborted.push(true);
+            reject(signal.reason);
+          });
+        }),
+    };
+
+    const collage = generateCollage({
+      images: [new Blob([]), new Blob([])],
+      params,
+      layout: "diptych",
+      output: "poster",
+      provider,
+      storage: createLocalStorage("/nonexistent", "test"),
+      timeoutMs: 60_000,
+    });
+    await expect(collage).rejects.toThrow("This drawing can't be used");
+    expect(aborted).toEqual([true]);
+  });
+});
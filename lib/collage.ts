@@ -0,0 +1,146 @@
+// lib/collage.ts
+// Several drawings transformed with one shared style and palette, composed
+// into a single poster or stored as a matched set of separate prints.
+
+import sharp from "sharp";
+import { createFidelityChecker, fidelityThreshold } from "./fidelity";
+import { buildPrompt, GenerateParams, GenerateResult, PosterResult, renderArt, storePoster } from "./generate";
+import { ReportStage } from "./jobs";
+import { CollageLayout, collageGrid, CollageOutput, COLLAGE_LAYOUTS } from "./collage-layouts";
+import { ImageProvider, parseSize } from "./providers";
+import { StorageDriver } from "./storage";
+import { getStylePreset } from "./styles";
+
+export * from "./collage-layouts";
+
+// Every piece gets the same explicit palette (the style's when none was
+// chosen) and the layout's piece size, so the set reads as one series.
+export function collageParams(params: GenerateParams, layout: CollageLayout): GenerateParams {
+  const palette = params.palette.length ? params.palette : [...getStylePreset(params.style).palette];
+  return {
+    ...params,
+    palette,
+    accent: params.palette.length ? params.accent : palette[0],
+    size: COLLAGE_LAYOUTS[layout].portrait ? "1024x1536" : "1024x1024",
+    variations: 1,
+  };
+}
+
+// Lay the pieces out on white paper with an outer margin and gutters. A
+// short last grid row is centred.
+export async function composeCollage(pieces: Uint8Array[], layout: CollageLayout): Promise<Uint8Array> {
+  const { width: cellW, height: cellH } = parseSize(COLLAGE_LAYOUTS[layout].portrait ? "1024x1536" : "1024x1024");
+  const { columns, rows } = collageGrid(layout, pieces.length);
+  const margin = Math.round(cellW * 0.08);
+  const gutter = Math.round(cellW * 0.05);
+  const width = 2 * margin + columns * cellW + (columns - 1) * gutter;
+  const height = 2 * margin + rows * cellH + (rows - 1) * gutter;
+
+  const cells = await Promise.all(
+    pieces.map(async (piece, i) => {
+      const row = Math.floor(i / columns);
+      const inRow = row === rows - 1 ? pieces.length - row * columns : columns;
+      const offset = ((columns - inRow) * (cellW + gutter)) / 2;
+      const input = await sharp(piece)
+        .resize(cellW, cellH, { fit: "contain", background: "#ffffff" })
+        .flatten({ background: "#ffffff" })
+        .png()
+        .toBuffer();
+      return {
+        input,
+        left: Math.round(margin + offset + (i % columns) * (cellW + gutter)),
+        top: margin + row * (cellH + gutter),
+      };
+    })
+  );
+
+  const png = await sharp({ create: { width, height, channels: 3, background: "#ffffff" } })
+    .composite(cells)
+    .png()
+    .toBuffer();
+  return new Uint8Array(png);
+}
+
+export type CollageOptions = {
+  images: Blob[];
+  params: GenerateParams;
+  layout: CollageLayout;
+  output: CollageOutput;
+  provider: ImageProvider;
+  storage: StorageDriver;
+  timeoutMs: number;
+  report?: ReportStage;
+  reroll?: () => Promise<boolean>;
+};
+
+// Transform every drawing in parallel, then compose or store them as a set.
+// Every piece must succeed: a series with a gap is not worth printing.
+export async function generateCollage({
+  images,
+  params: requested,
+  layout,
+  output,
+  provider,
+  storage,
+  timeoutMs,
+  report = () => {},
+  reroll,
+}: CollageOptions): Promise<GenerateResult> {
+  report("preparing", 5);
+  const params = collageParams(requested, layout);
+  const prompt = buildPrompt(params);
+  const threshold = fidelityThreshold();
+
+  report("generating", 15);
+  const deadline = Date.now() + timeoutMs;
+  const controller = new AbortController();
+  const kill = setTimeout(() => controller.abort(), timeoutMs);
+  let finished = 0;
+  // The first failed piece fails the collage, so the others are aborted
+  // rather than paid for.
+  const pieces = await Promise.all(
+    images.map(async (image) => {
+      const check = params.fidelity === "off" ? null : await createFidelityChecker(image);
+      const piece = await renderArt({
+        image,
+        prompt,
+        params,
+        provider,
+        variant: 0,
+        retryStride: 1,
+        check,
+        signal: controller.signal,
+        deadline,
+        // A series with one square piece doesn't match; no size fallback.
+        fallbackSize: null,
+        onRetry: () => report("retrying", 15 + Math.round((70 * finished) / images.length)),
+        reroll,
+      });
+      finished++;
+      report("generating", 15 + Math.round((70 * finished) / images.length));
+      return piece;
+    })
+  )
+    .catch((err) => {
+      controller.abort();
+      throw err;
+    })
+    .finally(() => clearTimeout(kill));
+
+  report("storing", 90);
+  const withFidelity = (stored: Omit<PosterResult, "fidelity" | "lowFidelity">, fidelity?: number): PosterResult =>
+    fidelity === undefined ? stored : { ...stored, fidelity, lowFidelity: fidelity < threshold };
+
+  if (output === "set") {
+    const posters = await Promise.all(
+      pieces.map(async ({ bytes, fidelity }) => withFidelity(await storePoster(storage, bytes, params), fidelity))
+    );
+    return { posters };
+  }
+
+  // One poster is only as faithful as its weakest piece.
+  const scores = pieces.flatMap((p) => (p.fidelity === undefined ? [] : [p.fidelity]));
+  const collage = await composeCollage(pieces.map((p) => p.bytes), layout);
+  const stored = await storePoster(storage, collage, params);
+  return { posters: [withFidelity(stored, scores.length ? Math.min(...scores) : undefined)] };
+}
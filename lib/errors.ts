@@ -0,0 +1,80 @@
+// lib/errors.ts
+// The error envelope API responses and failed jobs carry. Safe to import from
+// client components.
+
+import type { UploadErrorCode } from "./uploads";
+
+export type ErrorCode =
+  | UploadErrorCode
+  | "invalid_param"
+  | "not_found"
+  // The caller may not change this resource (e.g. someone else's share).
+  | "forbidden"
+  | "rate_limited"
+  | "quota_exceeded"
+  // The resource exists but isn't ready yet (e.g. a batch still running).
+  | "not_ready"
+  // The generation ran out of time.
+  | "timeout"
+  // The image provider is overloaded or rate-limiting us.
+  | "provider_busy"
+  // The image provider failed or couldn't be reached.
+  | "provider_unavailable"
+  // The image provider refused the drawing or prompt (content policy).
+  | "content_rejected"
+  // Any other provider failure, e.g. a bad API key.
+  | "provider_error"
+  | "internal";
+
+// `error` is written for the user; upstream response bodies never go in it.
+// `retryable` says whether sending the same request again may succeed.
+export type ErrorEnvelope = {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  details?: Record<string, string | number | boolean>;
+};
+
+// The envelope for an unexpected failure on the server. The error is logged;
+// its message may name files, keys or settings, so it isn't sent.
+export function internalError(err: unknown): ErrorEnvelope {
+  console.error("Request failed:", err);
+  return { error: "Something went wrong on our side.", code: "internal", retryable: false };
+}
+
+// A route handler's error response. It isn't retryable unless the envelope
+// says so.
+export function errorResponse(
+  status: number,
+  envelope: Omit<ErrorEnvelope, "retryable"> & { retryable?: boolean }
+): Response {
+  return Response.json({ ...envelope, retryable: envelope.retryable ?? false }, { status });
+}
+
+// A failed request or job, thrown on the client so callers can offer a retry.
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly retryable: boolean;
+  readonly details?: ErrorEnvelope["details"];
+
+  constructor({ error, code, retryable, details }: ErrorEnvelope) {
+    super(error);
+    this.name = "ApiError";
+    this.code = code;
+    this.retryable = retryable;
+    this.details = details;
+  }
+}
+
+// The envelope of a failed response. Older 4xx bodies without `retryable`
+// are not retryable.
+export async function readErrorEnvelope(res: Response): Promise<ErrorEnvelope> {
+  let body: Partial<ErrorEnvelope> = {};
+  try { body = (await res.json()) as Partial<ErrorEnvelope>; } catch {}
+  return {
+    error: body.error || `Server error ${res.status}`,
+    code: body.code || "internal",
+    retryable: body.retryable ?? res.status >= 500,
+    details: body.details,
+  };
+}
@@ -0,0 +1,198 @@
+// lib/fidelity.ts
+// Checks whether a generated poster kept the child's line structure: compare
+// edge maps of input and output after aligning their content boxes.
+
+import sharp from "sharp";
+
+const SIZE = 256; // analysis size (long side)
+const MAX_POINTS = 1500; // input edge samples used for matching
+const COARSE_POINTS = 300; // samples used in the coarse alignment pass
+const TOLERANCE = 0.015; // how far a line may move and still count, relative to the box
+
+// Score below which a poster is flagged (FIDELITY_THRESHOLD, default 0.8).
+export function fidelityThreshold(): number {
+  const t = Number(process.env.FIDELITY_THRESHOLD);
+  return Number.isFinite(t) && t > 0 && t < 1 ? t : 0.8;
+}
+
+// Extra attempts per variation in "retry" mode (FIDELITY_MAX_RETRIES, default 1).
+export function fidelityMaxRetries(): number {
+  const n = Number(process.env.FIDELITY_MAX_RETRIES);
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, 3) : 1;
+}
+
+type EdgeMap = { bits: Uint8Array; width: number; height: number };
+
+// Sobel edge magnitude, thresholded relative to the strongest edge.
+async function edgeMap(image: Uint8Array | Blob, size: number): Promise<EdgeMap> {
+  const input = image instanceof Blob ? Buffer.from(await image.arrayBuffer()) : image;
+  const { data, info } = await sharp(input)
+    .rotate()
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(size, size, { fit: "inside" })
+    .blur(0.8)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width: w, height: h } = info;
+
+  const mag = new Float32Array(w * h);
+  let max = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const p = (dx: number, dy: number) => data[(y + dy) * w + (x + dx)];
+      const gx = p(1, -1) + 2 * p(1, 0) + p(1, 1) - p(-1, -1) - 2 * p(-1, 0) - p(-1, 1);
+      const gy = p(-1, 1) + 2 * p(0, 1) + p(1, 1) - p(-1, -1) - 2 * p(0, -1) - p(1, -1);
+      mag[y * w + x] = Math.hypot(gx, gy);
+      if (mag[y * w + x] > max) max = mag[y * w + x];
+    }
+  }
+  const threshold = Math.max(60, max * 0.2);
+  const bits = new Uint8Array(w * h);
+  for (let i = 0; i < mag.length; i++) bits[i] = mag[i] >= threshold ? 1 : 0;
+  return { bits, width: w, height: h };
+}
+
+// Chamfer (3-4) distance to the nearest edge, in pixels.
+function distanceTransform({ bits, width: w, height: h }: EdgeMap): Float32Array {
+  const d = new Float32Array(w * h);
+  for (let i = 0; i < d.length; i++) d[i] = bits[i] ? 0 : 1e6;
+  const relax = (i: number, j: number, cost: number) => {
+    if (d[j] + cost < d[i]) d[i] = d[j] + cost;
+  };
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - w, 3);
+        if (x > 0) relax(i, i - w - 1, 4);
+        if (x < w - 1) relax(i, i - w + 1, 4);
+      }
+    }
+  }
+  for (let y = h - 1; y >= 0; y--) {
+    for (let x = w - 1; x >= 0; x--) {
+      const i = y * w + x;
+      if (x < w - 1) relax(i, i + 1, 3);
+      if (y < h - 1) {
+        relax(i, i + w, 3);
+        if (x < w - 1) relax(i, i + w + 1, 4);
+        if (x > 0) relax(i, i + w - 1, 4);
+      }
+    }
+  }
+  for (let i = 0; i < d.length; i++) d[i] /= 3;
+  return d;
+}
+
+function dilate({ bits, width, height }: EdgeMap, r: number): Uint8Array {
+  const out = new Uint8Array(bits.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!bits[y * width + x]) continue;
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) out[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// Input edges as points normalized to their content box, plus the box aspect.
+function contentPoints(map: EdgeMap): { points: Array<[number, number]>; aspect: number } {
+  const { bits, width } = map;
+  let [x0, y0, x1, y1] = [Infinity, Infinity, -1, -1];
+  const raw: Array<[number, number]> = [];
+  for (let i = 0; i < bits.length; i++) {
+    if (!bits[i]) continue;
+    const x = i % width;
+    const y = Math.floor(i / width);
+    raw.push([x, y]);
+    [x0, y0, x1, y1] = [Math.min(x0, x), Math.min(y0, y), Math.max(x1, x), Math.max(y1, y)];
+  }
+  if (!raw.length) return { points: [], aspect: 1 };
+  const step = Math.max(1, Math.ceil(raw.length / MAX_POINTS));
+  const bw = Math.max(1, x1 - x0);
+  const bh = Math.max(1, y1 - y0);
+  const points = raw.filter((_, i) => i % step === 0).map(([x, y]) => [(x - x0) / bw, (y - y0) / bh] as [number, number]);
+  return { points, aspect: bw / bh };
+}
+
+export type FidelityChecker = (output: Uint8Array) => Promise<number>;
+
+type Box = { bx: number; by: number; bw: number; bh: number };
+
+// Prepare the input once; the returned checker scores each output 0–1.
+// Alignment: search the output for the box (scale, small aspect change,
+// position) where the input's lines land best, coarse then fine. The score
+// weights recall (original lines still present) over precision (new lines
+// inside that box), since recolouring and allowed shapes legitimately add edges.
+export async function createFidelityChecker(input: Uint8Array | Blob): Promise<FidelityChecker> {
+  const { points, aspect } = contentPoints(await edgeMap(input, SIZE));
+  const coarse = points.filter((_, i) => i % Math.max(1, Math.ceil(points.length / COARSE_POINTS)) === 0);
+
+  return async (output) => {
+    if (!points.length) return 1;
+    const result = await edgeMap(output, SIZE);
+    const { width: W, height: H } = result;
+    const dist = distanceTransform(result);
+
+    const recallAt = (sample: Array<[number, number]>, { bx, by, bw, bh }: Box) => {
+      const tol = Math.max(1, TOLERANCE * Math.max(bw, bh));
+      let hit = 0;
+      for (const [u, v] of sample) {
+        if (dist[Math.round(by + v * bh) * W + Math.round(bx + u * bw)] <= tol) hit++;
+      }
+      return hit / sample.length;
+    };
+
+    const search = (sample: Array<[number, number]>, widths: number[], step: number, around?: Box) => {
+      let best = { recall: -1, box: { bx: 0, by: 0, bw: W - 1, bh: H - 1 } };
+      for (const bw of widths) {
+        for (const factor of [0.9, 1, 1.1]) {
+          const bh = Math.round(bw / (aspect * factor));
+          if (bw < 4 || bh < 4 || bw >= W || bh >= H || Math.max(bw / W, bh / H) < 0.4) continue;
+          const [xs, xe] = around ? [around.bx - 2 * step, around.bx + 2 * step] : [0, W - bw - 1];
+          const [ys, ye] = around ? [around.by - 2 * step, around.by + 2 * step] : [0, H - bh - 1];
+          for (let by = Math.max(0, ys); by <= Math.min(H - bh - 1, ye); by += step) {
+            for (let bx = Math.max(0, xs); bx <= Math.min(W - bw - 1, xe); bx += step) {
+              const box = { bx, by, bw, bh };
+              const recall = recallAt(sample, box);
+              if (recall > best.recall) best = { recall, box };
+            }
+          }
+        }
+      }
+      return best;
+    };
+
+    const range = (from: number, to: number, step: number) =>
+      Array.from({ length: Math.max(0, Math.floor((to - from) / step) + 1) }, (_, i) => from + i * step);
+
+    const rough = search(coarse, range(Math.round(W * 0.3), W - 1, 6), 6);
+    const { box } = search(points, range(rough.box.bw - 6, rough.box.bw + 6, 2), 2, rough.box);
+    const recall = recallAt(points, box);
+
+    // Precision inside the box: output edges close to a projected source line.
+    const tol = Math.max(1, Math.round(TOLERANCE * Math.max(box.bw, box.bh)));
+    const source = new Uint8Array(W * H);
+    for (const [u, v] of points) source[Math.round(box.by + v * box.bh) * W + Math.round(box.bx + u * box.bw)] = 1;
+    const sourceNear = dilate({ bits: source, width: W, height: H }, tol + 1);
+    let inBox = 0;
+    let matched = 0;
+    for (let y = box.by; y <= box.by + box.bh; y++) {
+      for (let x = box.bx; x <= box.bx + box.bw; x++) {
+        if (!result.bits[y * W + x]) continue;
+        inBox++;
+        if (sourceNear[y * W + x]) matched++;
+      }
+    }
+    const precision = inBox ? matched / inBox : 0;
+    return Math.round((0.8 * recall + 0.2 * precision) * 1000) / 1000;
+  };
+}
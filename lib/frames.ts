@@ -0,0 +1,53 @@
+// lib/frames.ts
+// Frames and wall colours for the room mockup, shared by the mockup renderer
+// and the client controls.
+
+import type { Orientation, PaperFormat } from "./paper";
+
+export const FRAMES = {
+  oak: { label: "Oak", color: "#C29A6B", edge: "#9C7448" },
+  black: { label: "Black", color: "#232323", edge: "#0A0A0A" },
+  white: { label: "White", color: "#F6F5F1", edge: "#D8D6CF" },
+  none: { label: "No frame", color: null, edge: null },
+} as const;
+
+export type FrameId = keyof typeof FRAMES;
+
+export const WALL_COLOURS = {
+  "warm-white": { label: "Warm white", hex: "#F2EEE6" },
+  sage: { label: "Sage", hex: "#B9C3A9" },
+  "dusty-blue": { label: "Dusty blue", hex: "#A8BBCA" },
+  blush: { label: "Blush", hex: "#E7CBC2" },
+  terracotta: { label: "Terracotta", hex: "#C98E73" },
+  charcoal: { label: "Charcoal", hex: "#4B4F55" },
+} as const;
+
+export type WallColourId = keyof typeof WALL_COLOURS;
+
+// The sofa under the poster is a standard three-seater, for scale. The
+// renderer draws it at this width, so the controls can quote it.
+export const SOFA_WIDTH_MM = 2100;
+
+export type MockupOptions = {
+  format: PaperFormat;
+  orientation: Orientation;
+  frame: FrameId;
+  // Passe-partout inside the frame; `matMm` 0 picks a width from the paper size.
+  mat: boolean;
+  matMm: number;
+  // #RRGGBB
+  wall: string;
+};
+
+export const DEFAULT_MOCKUP_OPTIONS: MockupOptions = {
+  format: "A3",
+  orientation: "portrait",
+  frame: "oak",
+  mat: true,
+  matMm: 0,
+  wall: WALL_COLOURS["warm-white"].hex,
+};
+
+export function isFrameId(v: string): v is FrameId {
+  return Object.prototype.hasOwnProperty.call(FRAMES, v);
+}
@@ -0,0 +1,157 @@
+// lib/gallery.ts
+// Generation records for the gallery: the uploaded drawing, the parameters
+// and prompt, and every stored result.
+
+import { randomUUID } from "crypto";
+import { CollageLayout, collageParams, CollageOutput, generateCollage } from "./collage";
+import { buildPrompt, GenerateParams, generatePoster, GenerateResult, PosterResult } from "./generate";
+import { PosterRecord, PosterRepository, StoredPoster } from "./posters";
+import { defaultUrlOptions, StorageDriver } from "./storage";
+
+// A record as the API returns it, with URLs resolved. `originalUrls` has
+// every uploaded drawing (one unless it is a collage).
+export type PosterRecordView = Omit<PosterRecord, "posters"> & {
+  originalUrl: string;
+  originalUrls: string[];
+  posters: PosterResult[];
+};
+
+type RecordOptions = {
+  repository: PosterRepository;
+  storage: StorageDriver;
+  images: Blob[];
+  params: GenerateParams;
+  result: GenerateResult;
+  ownerId: string;
+  childId?: string;
+  collage?: { layout: CollageLayout; output: CollageOutput };
+};
+
+const storedPosters = (result: GenerateResult): StoredPoster[] =>
+  result.posters.map(({ key, artKey, fidelity, lowFidelity }) => ({ key, artKey, fidelity, lowFidelity }));
+
+// Store the original uploads next to the results and save the record.
+export async function recordGeneration({
+  repository,
+  storage,
+  images,
+  params,
+  result,
+  ownerId,
+  childId,
+  collage,
+}: RecordOptions): Promise<PosterRecord> {
+  const id = randomUUID();
+  const originalKeys = await Promise.all(
+    images.map(async (image, i) => {
+      const key = `originals/${id}${images.length > 1 ? `-${i + 1}` : ""}.${image.type === "image/png" ? "png" : "jpg"}`;
+      await storage.put(key, new Uint8Array(await image.arrayBuffer()), image.type || "image/jpeg");
+      return key;
+    })
+  );
+
+  const now = Date.now();
+  const record: PosterRecord = {
+    id,
+    ownerId,
+    createdAt: now,
+    updatedAt: now,
+    originalKey: originalKeys[0],
+    collage: collage && { ...collage, originalKeys },
+    childId,
+    params,
+    prompt: buildPrompt(params),
+    posters: storedPosters(result),
+  };
+  await repository.save(record);
+  return record;
+}
+
+// Recording is best-effort: a failure there is logged and the posters are
+// still returned.
+async function withRecord(result: GenerateResult, record: Omit<RecordOptions, "result">): Promise<GenerateResult> {
+  try {
+    const { id } = await recordGeneration({ ...record, result });
+    return { ...result, recordId: id };
+  } catch (err) {
+    console.error("Recording generation failed:", err);
+    return result;
+  }
+}
+
+type Recorded<T> = T & { repository: PosterRepository; ownerId: string; childId?: string };
+
+// Run the generation pipeline and record it.
+export async function generateAndRecord({
+  repository,
+  ownerId,
+  childId,
+  ...options
+}: Recorded<Parameters<typeof generatePoster>[0]>): Promise<GenerateResult> {
+  const result = await generatePoster(options);
+  const { storage, image, params } = options;
+  return withRecord(result, { repository, storage, images: [image], params, ownerId, childId });
+}
+
+// Run the collage pipeline and record it with every drawing.
+export async function generateCollageAndRecord({
+  repository,
+  ownerId,
+  childId,
+  ...options
+}: Recorded<Parameters<typeof generateCollage>[0]>): Promise<GenerateResult> {
+  const result = await generateCollage(options);
+  const { storage, images, layout, output } = options;
+  return withRecord(result, {
+    repository,
+    storage,
+    images,
+    ownerId,
+    childId,
+    params: collageParams(options.params, layout),
+    collage: { layout, output },
+  });
+}
+
+// Add refined posters to the record of the poster they came from, so they
+// can be refined, exported and framed in turn. Best-effort like recording.
+export async function addToRecord(
+  repository: PosterRepository,
+  recordId: string,
+  result: GenerateResult
+): Promise<GenerateResult> {
+  try {
+    const record = await repository.get(recordId);
+    if (!record) return result;
+    await repository.save({ ...record, updatedAt: Date.now(), posters: [...record.posters, ...storedPosters(result)] });
+    return { ...result, recordId };
+  } catch (err) {
+    console.error("Recording refinement failed:", err);
+    return result;
+  }
+}
+
+export async function toRecordView(storage: StorageDriver, record: PosterRecord): Promise<PosterRecordView> {
+  const url = (key: string) => storage.getUrl(key, defaultUrlOptions());
+  return {
+    ...record,
+    originalUrl: await url(record.originalKey),
+    originalUrls: await Promise.all((record.collage?.originalKeys ?? [record.originalKey]).map(url)),
+    posters: await Promise.all(
+      record.posters.map(async (p) => ({ ...p, posterUrl: await url(p.key), artUrl: await url(p.artKey) }))
+    ),
+  };
+}
+
+// Remove a record and every file it points to. Returns false if it didn't exist.
+export async function deleteRecord(repository: PosterRepository, storage: StorageDriver, id: string): Promise<boolean> {
+  const record = await repository.get(id);
+  if (!record) return false;
+  const keys = new Set([
+    record.originalKey,
+    ...(record.collage?.originalKeys ?? []),
+    ...record.posters.flatMap((p) => [p.key, p.artKey]),
+  ]);
+  await Promise.all([...keys].map((key) => storage.delete(key)));
+  return repository.delete(id);
+}
@@ -0,0 +1,51 @@
+// lib/generate-client.ts
+// Browser client for the routes that start a poster job. Requests are encoded
+// with the shared schema; failures become a QuotaError (429) or an ApiError
+// carrying the error envelope.
+
+import { ApiError, readErrorEnvelope } from "./errors";
+import {
+  BatchRequest,
+  CollageRequest,
+  encodeBatchRequest,
+  encodeCollageRequest,
+  encodeGenerateRequest,
+  GenerateRequest,
+  GenerateResponse,
+} from "./generate-schema";
+import { quotaFromHeaders, throwIfLimited } from "./ratelimit/client";
+import type { QuotaStatus } from "./ratelimit/types";
+
+export type StartOptions = {
+  // Square output instead of portrait (generate and batch).
+  fast?: boolean;
+  // Called with the caller's quota from the response headers.
+  onQuota?: (quota: QuotaStatus) => void;
+};
+
+// POST a form to a route that answers with a job (generate, collage, batch,
+// refine, regenerate).
+export async function startJob(url: string, body: FormData | null, { onQuota }: StartOptions = {}): Promise<GenerateResponse> {
+  const res = await fetch(url, { method: "POST", body });
+  const quota = quotaFromHeaders(res.headers);
+  if (quota) onQuota?.(quota);
+  await throwIfLimited(res);
+  if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+
+  let data: Partial<GenerateResponse> = {};
+  try { data = (await res.json()) as Partial<GenerateResponse>; } catch {}
+  if (!data.jobId || !data.status) throw new ApiError({ error: "No jobId in response", code: "internal", retryable: false });
+  return data as GenerateResponse;
+}
+
+export function startGeneration(req: GenerateRequest, opts: StartOptions = {}): Promise<GenerateResponse> {
+  return startJob(opts.fast ? "/api/generate?fast=1" : "/api/generate", encodeGenerateRequest(req), opts);
+}
+
+export function startCollage(req: CollageRequest, opts: StartOptions = {}): Promise<GenerateResponse> {
+  return startJob("/api/collage", encodeCollageRequest(req), opts);
+}
+
+export function startBatch(req: BatchRequest, opts: StartOptions = {}): Promise<GenerateResponse> {
+  return startJob(opts.fast ? "/api/batch?fast=1" : "/api/batch", encodeBatchRequest(req), opts);
+}
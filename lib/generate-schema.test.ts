@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  encodeGenerateRequest,
+  encodePosterSettings,
+  encodeTypography,
+  GenerateRequest,
+  parseGenerateRequest,
+  parsePosterSettings,
+  parseTypography,
+  PosterSettings,
+} from "./generate-schema";
+
+const settings: PosterSettings = {
+  style: "matisse",
+  palette: ["#112233", "#445566", "#778899"],
+  accent: "#AABBCC",
+  enforcePalette: true,
+  allowShapes: false,
+  aiText: true,
+  titleText: "Our cat",
+  typography: { layout: "bottom-bar", font: "fredoka", caption: "Age 5" },
+  variations: 3,
+  fidelity: "retry",
+  childId: "child-1",
+};
+
+function form(fields: Record<string, string>): FormData {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) body.append(name, value);
+  return body;
+}
+
+describe("poster settings", () => {
+  it("parse back to what was encoded", () => {
+    expect(parsePosterSettings(encodePosterSettings(settings))).toEqual({ value: settings });
+  });
+
+  it("round-trip the optional fields left out", () => {
+    const minimal: PosterSettings = {
+      style: "bauhaus",
+      palette: [],
+      enforcePalette: false,
+      aiText: false,
+      titleText: "",
+      variations: 1,
+      fidelity: "warn",
+    };
+    const { value } = parsePosterSettings(encodePosterSettings(minimal));
+    expect(value).toEqual({ ...minimal, accent: undefined, allowShapes: undefined, typography: undefined, childId: undefined });
+  });
+
+  it("default an empty form", () => {
+    expect(parsePosterSettings(new FormData()).value).toMatchObject({
+      palette: [],
+      enforcePalette: false,
+      variations: 1,
+      fidelity: "warn",
+    });
+  });
+
+  it.each([
+    [{ style: "cubism" }, "style"],
+    [{ palette: "#112233" }, "palette"],
+    [{ paletteAccent: "red" }, "paletteAccent"],
+    [{ enforcePalette: "true" }, "enforcePalette"],
+    [{ allowShapes: "yes" }, "allowShapes"],
+    [{ variations: "9" }, "variations"],
+    [{ fidelity: "strict" }, "fidelity"],
+    [{ titleLayout: "sideways" }, "titleLayout"],
+  ])("reject %o as invalid_param naming the field", (fields, field) => {
+    expect(parsePosterSettings(form(fields)).error).toMatchObject({
+      code: "invalid_param",
+      retryable: false,
+      details: { field },
+    });
+  });
+});
+
+describe("generate request", () => {
+  it("round-trips force and carries the image", () => {
+    const image = new Blob([new Uint8Array([1, 2, 3])], { type: "image/png" });
+    const request: GenerateRequest = { ...settings, image, force: true };
+    const body = encodeGenerateRequest(request);
+    expect(body.get("image")).toBeInstanceOf(Blob);
+    expect(parseGenerateRequest(body)).toEqual({ value: { ...settings, force: true } });
+  });
+
+  it("sends booleans as true/false", () => {
+    const body = encodeGenerateRequest({ ...settings, image: new Blob([]) });
+    expect(body.get("enforcePalette")).toBe("true");
+    expect(body.get("allowShapes")).toBe("false");
+    expect(body.get("force")).toBeNull();
+  });
+});
+
+describe("typography", () => {
+  it("round-trips with and without an overlay", () => {
+    const typography = settings.typography;
+    expect(parseTypography(encodeTypography(new FormData(), typography))).toEqual({ value: typography });
+    expect(parseTypography(encodeTypography(new FormData()))).toEqual({ value: undefined });
+  });
+});
@@ -0,0 +1,198 @@
+// lib/generate-schema.ts
+// The request contract of /api/generate and of the collage and batch routes,
+// which take the same poster settings: field names, how values are encoded
+// in the multipart form, and validation. Shared by the routes and the
+// browser client (lib/generate-client.ts), so it must stay client-safe.
+
+import type { ErrorEnvelope } from "./errors";
+import type { GenerateResult } from "./generate";
+import type { JobStatus } from "./jobs/types";
+import { CollageLayout, CollageOutput } from "./collage-layouts";
+import { MAX_PALETTE, MIN_PALETTE, parsePalette } from "./palettes";
+import { DEFAULT_STYLE, isStyleId, STYLE_IDS, StyleId } from "./styles";
+import { checkText, MAX_CAPTION_LENGTH, MAX_TITLE_LENGTH } from "./text";
+import { isTitleFont, isTitleLayout, Typography } from "./title-layouts";
+
+export const MAX_VARIATIONS = 4;
+
+// Compare each result's line structure with the input: skip, flag or re-roll.
+export type FidelityMode = "off" | "warn" | "retry";
+
+export const FIDELITY_MODES: FidelityMode[] = ["off", "warn", "retry"];
+
+export function isFidelityMode(v: string): v is FidelityMode {
+  return (FIDELITY_MODES as string[]).includes(v);
+}
+
+// Everything a poster request says about the result. Optional fields fall
+// back to the style preset's choice on the server.
+export type PosterSettings = {
+  style: StyleId;
+  // MIN_PALETTE–MAX_PALETTE colours; empty means "around `accent`".
+  palette: string[];
+  accent?: string;
+  // Quantize the result to exactly `palette`.
+  enforcePalette: boolean;
+  allowShapes?: boolean;
+  // Let the model letter the title into the artwork.
+  aiText: boolean;
+  titleText: string;
+  // Server-side title overlay, applied when set and titleText is non-empty.
+  typography?: Typography;
+  // 1–MAX_VARIATIONS
+  variations: number;
+  fidelity: FidelityMode;
+  childId?: string;
+};
+
+export type GenerateRequest = PosterSettings & {
+  image: Blob;
+  // Skip the result cache and generate anew.
+  force?: boolean;
+};
+
+export type CollageRequest = PosterSettings & {
+  images: Blob[];
+  layout: CollageLayout;
+  output: CollageOutput;
+};
+
+export type BatchRequest = PosterSettings & { images: Blob[] };
+
+// 202 with a queued job, or 200 with `result` when /api/generate answered
+// from the result cache.
+export type GenerateResponse = { jobId: string; status: JobStatus; result?: GenerateResult };
+
+export type Parsed<T> = { value: T; error?: undefined } | { value?: undefined; error: ErrorEnvelope };
+
+function invalid(field: string, error: string): { error: ErrorEnvelope } {
+  return { error: { error, code: "invalid_param", retryable: false, details: { field } } };
+}
+
+function field(form: FormData, name: string): string {
+  const value = form.get(name);
+  return typeof value === "string" ? value : "";
+}
+
+// Booleans travel as "true"/"false"; a missing field is undefined.
+function flag(form: FormData, name: string): Parsed<boolean | undefined> {
+  const value = field(form, name);
+  if (!value) return { value: undefined };
+  if (value === "true" || value === "false") return { value: value === "true" };
+  return invalid(name, `${name} must be "true" or "false"`);
+}
+
+// The typography fields (overlayTitle, titleLayout, titleFont, caption),
+// also sent with a refine request.
+export function encodeTypography(form: FormData, typography?: Typography): FormData {
+  form.append("overlayTitle", String(!!typography));
+  if (typography) {
+    form.append("titleLayout", typography.layout);
+    form.append("titleFont", typography.font);
+    form.append("caption", typography.caption);
+  }
+  return form;
+}
+
+// The caption is sanitized here, before it can reach a prompt.
+export function parseTypography(form: FormData): Parsed<Typography | undefined> {
+  const overlayTitle = flag(form, "overlayTitle");
+  if (overlayTitle.error) return overlayTitle;
+  const layout = field(form, "titleLayout") || "bottom-bar";
+  const font = field(form, "titleFont") || "fredoka";
+  const caption = checkText(field(form, "caption"), "caption", MAX_CAPTION_LENGTH);
+  if (caption.error) return invalid("caption", caption.error);
+  if (!isTitleLayout(layout)) return invalid("titleLayout", `Unknown titleLayout "${layout}"`);
+  if (!isTitleFont(font)) return invalid("titleFont", `Unknown titleFont "${font}"`);
+  return { value: overlayTitle.value ? { layout, font, caption: caption.value ?? "" } : undefined };
+}
+
+export function encodePosterSettings(settings: PosterSettings, form = new FormData()): FormData {
+  form.append("style", settings.style);
+  if (settings.palette.length) form.append("palette", settings.palette.join(","));
+  if (settings.accent) form.append("paletteAccent", settings.accent);
+  form.append("enforcePalette", String(settings.enforcePalette));
+  if (settings.allowShapes !== undefined) form.append("allowShapes", String(settings.allowShapes));
+  form.append("aiText", String(settings.aiText));
+  form.append("titleText", settings.titleText);
+  encodeTypography(form, settings.typography);
+  form.append("variations", String(settings.variations));
+  form.append("fidelity", settings.fidelity);
+  if (settings.childId) form.append("childId", settings.childId);
+  return form;
+}
+
+export function parsePosterSettings(form: FormData): Parsed<PosterSettings> {
+  const style = field(form, "style") || DEFAULT_STYLE;
+  if (!isStyleId(style)) return invalid("style", `Unknown style "${style}" (expected one of ${STYLE_IDS.join(", ")})`);
+  const paletteField = field(form, "palette");
+  const palette = paletteField ? parsePalette(paletteField) : [];
+  if (!palette) {
+    return invalid("palette", `palette must be ${MIN_PALETTE}–${MAX_PALETTE} comma-separated #RRGGBB colours`);
+  }
+  const accent = field(form, "paletteAccent") || undefined;
+  if (accent && !/^#[0-9a-f]{6}$/i.test(accent)) return invalid("paletteAccent", "paletteAccent must be a #RRGGBB colour");
+  const enforcePalette = flag(form, "enforcePalette");
+  if (enforcePalette.error) return enforcePalette;
+  if (enforcePalette.value && !palette.length) return invalid("enforcePalette", "enforcePalette requires a palette");
+  const allowShapes = flag(form, "allowShapes");
+  if (allowShapes.error) return allowShapes;
+  const aiText = flag(form, "aiText");
+  if (aiText.error) return aiText;
+  const title = checkText(field(form, "titleText"), "titleText", MAX_TITLE_LENGTH);
+  if (title.error) return invalid("titleText", title.error);
+  const typography = parseTypography(form);
+  if (typography.error) return typography;
+  const variations = Number(field(form, "variations") || "1");
+  if (!Number.isInteger(variations) || variations < 1 || variations > MAX_VARIATIONS) {
+    return invalid("variations", `variations must be 1–${MAX_VARIATIONS}`);
+  }
+  const fidelity = field(form, "fidelity") || "warn";
+  if (!isFidelityMode(fidelity)) return invalid("fidelity", `fidelity must be "off", "warn" or "retry"`);
+
+  return {
+    value: {
+      style,
+      palette,
+      accent,
+      enforcePalette: !!enforcePalette.value,
+      allowShapes: allowShapes.value,
+      aiText: !!aiText.value,
+      titleText: title.value ?? "",
+      typography: typography.value,
+      variations,
+      fidelity,
+      childId: field(form, "childId") || undefined,
+    },
+  };
+}
+
+export function encodeGenerateRequest({ image, force, ...settings }: GenerateRequest): FormData {
+  const form = encodePosterSettings(settings);
+  form.append("image", image);
+  if (force) form.append("force", "true");
+  return form;
+}
+
+// Everything but the image, which the route reads and validates itself.
+export function parseGenerateRequest(form: FormData): Parsed<Omit<GenerateRequest, "image">> {
+  const settings = parsePosterSettings(form);
+  if (settings.error) return settings;
+  const force = flag(form, "force");
+  if (force.error) return force;
+  return { value: { ...settings.value, force: !!force.value } };
+}
+
+export function encodeCollageRequest({ images, layout, output, ...settings }: CollageRequest): FormData {
+  const form = encodePosterSettings(settings);
+  images.forEach((image) => form.append("image", image));
+  form.append("layout", layout);
+  form.append("output", output);
+  return form;
+}
+
+export function encodeBatchRequest({ images, ...settings }: BatchRequest): FormData {
+  const form = encodePosterSettings(settings);
+  images.forEach((image) => form.append("image", image));
+  return form;
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GenerateParams, renderArt } from "./generate";
+
+const params: GenerateParams = {
+  style: "matisse",
+  accent: "#E63946",
+  palette: [],
+  enforcePalette: false,
+  allowShapes: false,
+  aiText: false,
+  titleText: "",
+  variations: 1,
+  fidelity: "retry",
+  size: "1024x1024",
+};
+
+// Every attempt scores below the threshold; the second is the best.
+function render(reroll: () => Promise<boolean>) {
+  const provider = { name: "stub", editImage: vi.fn(async () => new Uint8Array()) };
+  const scores = [0.2, 0.5, 0.4, 0.3];
+  const art = renderArt({
+    image: new Blob([]),
+    prompt: "",
+    params,
+    provider,
+    variant: 0,
+    retryStride: 1,
+    check: async () => scores.shift()!,
+    signal: new AbortController().signal,
+    deadline: Date.now() + 60_000,
+    reroll,
+  });
+  return { art, provider };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("renderArt", () => {
+  it("asks before every fidelity re-roll and keeps the best attempt", async () => {
+    vi.stubEnv("FIDELITY_MAX_RETRIES", "3");
+    const reroll = vi.fn(async () => true);
+    const { art, provider } = render(reroll);
+    expect((await art).fidelity).toBe(0.5);
+    expect(reroll).toHaveBeenCalledTimes(3);
+    expect(provider.editImage).toHaveBeenCalledTimes(4);
+  });
+
+  it("stops re-rolling once a re-roll is refused", async () => {
+    vi.stubEnv("FIDELITY_MAX_RETRIES", "3");
+    const reroll = vi.fn(async () => reroll.mock.calls.length < 2);
+    const { art, provider } = render(reroll);
+    expect((await art).fidelity).toBe(0.5);
+    expect(reroll).toHaveBeenCalledTimes(2);
+    expect(provider.editImage).toHaveBeenCalledTimes(2);
+  });
+});
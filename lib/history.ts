@@ -0,0 +1,62 @@
+// lib/history.ts
+// Version history of a poster session. Every generated variation is a root
+// version; each refinement points at the version it started from, so
+// refining an older version starts a new branch instead of overwriting.
+// Client-safe: no server-only imports.
+
+import type { PosterResult } from "./generate";
+import type { Messages } from "./i18n";
+import type { StyleId } from "./styles";
+
+export type VersionParams =
+  | {
+      kind: "generate";
+      style: StyleId;
+      palette: string[];
+      enforcePalette: boolean;
+      allowShapes: boolean;
+      titleText: string;
+      variation: number;
+    }
+  | { kind: "refine"; instruction: string; masked: boolean };
+
+// `id` is the poster's storage key, which is unique per stored result.
+export type Version = {
+  id: string;
+  parentId?: string;
+  poster: PosterResult;
+  params: VersionParams;
+  createdAt: number;
+};
+
+export function addVersion(
+  history: Version[],
+  poster: PosterResult,
+  params: VersionParams,
+  parentId?: string
+): Version[] {
+  return [...history, { id: poster.key, parentId, poster, params, createdAt: Date.now() }];
+}
+
+export function findVersion(history: Version[], id: string | null | undefined): Version | undefined {
+  return id ? history.find((v) => v.id === id) : undefined;
+}
+
+// The chain of versions from the root generation down to `id`.
+export function lineage(history: Version[], id: string | null | undefined): Version[] {
+  const chain: Version[] = [];
+  for (let v = findVersion(history, id); v; v = findVersion(history, v.parentId)) chain.unshift(v);
+  return chain;
+}
+
+// "v3" — numbered in creation order.
+export function versionLabel(history: Version[], id: string): string {
+  return `v${history.findIndex((v) => v.id === id) + 1}`;
+}
+
+// In the language of `t`.
+export function describeVersion({ params }: Version, t: Messages): string {
+  if (params.kind === "refine") return `“${params.instruction}”${params.masked ? ` ${t.history.area}` : ""}`;
+  const label = t.styles[params.style];
+  return params.variation > 0 ? `${label} #${params.variation + 1}` : label;
+}
@@ -0,0 +1,344 @@
+// lib/i18n/da.ts
+// Danish UI strings.
+
+import type { Messages } from "./en";
+
+const s = (n: number, one: string, many: string) => (n === 1 ? one : many);
+
+export const da: Messages = {
+  languageName: "Dansk",
+  language: "Sprog",
+
+  app: {
+    title: "Børnetegning → plakat til stuen",
+    description: "Gør et barns tegning til en plakat til stuen.",
+    gallery: "Galleri",
+    makePoster: "Lav en plakat",
+    tryAgain: "Prøv igen",
+  },
+
+  stages: {
+    queued: "Venter i køen…",
+    preparing: "Gør tegningen klar…",
+    generating: "Maler plakaten…",
+    retrying: "Tegner tættere på originalen…",
+    storing: "Gemmer plakaten…",
+    done: "Gør det færdigt…",
+  },
+
+  upload: {
+    idle: "Vælg en PNG/JPG. Filnavn og forhåndsvisning vises nedenfor.",
+    chooseFile: "Vælg fil",
+    chooseFolder: "Vælg mappe",
+    dropHint: (max) => `eller træk et billede hertil (2–${max} til en collage)`,
+    dropBatchHint: "eller træk tegninger eller en hel mappe hertil",
+    batchMode: "Mange på én gang",
+    notAnImage: "Vælg et PNG- eller JPG-billede.",
+    preparingImage: "Gør billedet klar…",
+    preparingDrawings: "Gør tegningerne klar…",
+    selected: (name) => `Valgt: ${name}`,
+    selectedSending: (name, kb) => `Valgt: ${name} → sender ${kb} KB`,
+    selectedBatch: (n) => `${n} ${s(n, "tegning", "tegninger")} valgt.`,
+    selectedCollage: (n, max) => `${n} tegninger valgt til en collage` + (max ? ` (kun de første ${max} bruges).` : "."),
+    selectFirst: "Vælg først et billede.",
+    selectDrawingsFirst: "Vælg først nogle tegninger.",
+    noImage: "Intet billede endnu",
+    original: "Original",
+    drawing: (n) => `tegning ${n}`,
+    removeDrawing: "Fjern tegning",
+    cleaned: "rettet op",
+  },
+
+  cleanup: {
+    toggle: "Foto af papir: ret op og rens",
+    apply: "Beskær og rens",
+    adjust: "Justér hjørner",
+    hint: "Træk hjørnerne ud til papirets kanter.",
+    working: "Retter fotoet op og renser det…",
+    done: "Fotoet er renset. Klar til at lave plakat.",
+    failed: (msg) => `Rensning mislykkedes: ${msg}`,
+  },
+
+  controls: {
+    style: "Stil",
+    palette: "Farver",
+    paletteStyle: "Stilens farver",
+    paletteDrawing: "Fra tegningen",
+    paletteCustom: "Egne farver",
+    accent: (colour) => `${colour} (accent)`,
+    addColour: "Tilføj farve",
+    removeColour: "Fjern sidste farve",
+    paletteFailed: (msg) => `Kunne ikke finde tegningens farver: ${msg}`,
+    enforcePalette: "Brug kun præcis disse farver",
+    allowShapes: "Tillad enkle figurer",
+    aiText: "Lad AI skrive titlen",
+    overlayTitle: "Sæt ren titel på (anbefales)",
+    titlePlaceholder: "Plakatens titel (valgfri)",
+    captionPlaceholder: (example) => `Undertekst, fx ${example}`,
+    titleLayout: "Placering",
+    titleFont: "Skrift",
+    collageLayout: "Opsætning",
+    variations: "Varianter",
+    fidelity: "Tjek af linjer",
+    fidelityWarn: "Advar",
+    fidelityRetry: "Prøv igen selv",
+    fidelityOff: "Fra",
+    fastMode: "Hurtig (kvadratisk)",
+  },
+
+  generate: {
+    button: "Lav plakat",
+    batchButton: (n) => `Lav ${n} ${s(n, "plakat", "plakater")}`,
+    busy: "Laver plakat…",
+    generatingBatch: (n) => `Laver ${n} ${s(n, "plakat", "plakater")}…`,
+    anew: "Lav en ny",
+    anewTitle: "Spring den gemte plakat over og lav nye",
+    regenerateRejected: (n) => `Lav de fravalgte om (${n})`,
+    failed: (msg) => `Plakaten kunne ikke laves: ${msg}`,
+    noPosters: "Jobbet gav ingen plakater",
+    cached: "Samme tegning og indstillinger som før, så det er den gemte plakat. Brug “Lav en ny” for at få en frisk.",
+    someFailed: (missing, count) => `Færdig, men ${missing} af ${count} varianter mislykkedes.`,
+    lowFidelity: (low, count) =>
+      `Færdig, men ${low === 1 && count === 1 ? "plakaten" : `${low} ${s(low, "plakat", "plakater")}`} kan have ændret tegningen. Tjek før du printer.`,
+    square: (square, count) =>
+      `Færdig! Tiden blev knap, så ${
+        square === 1 && count === 1 ? "plakaten er" : `${square} ${s(square, "plakat er", "plakater er")}`
+      } kvadratisk i stedet for stående.`,
+    doneSet: "Færdig! Dit matchende sæt er klar.",
+    doneCollage: "Færdig! Collagen er lavet.",
+    doneMany: "Færdig! Vælg din favorit.",
+    doneOne: "Færdig! Plakaten er lavet.",
+    batchSomeFailed: (failed, count) =>
+      `Færdig, men ${failed} af ${count} tegninger mislykkedes. Hent ZIP-filen med resten.`,
+    batchDone: "Færdig! Hent alle plakaterne som ZIP.",
+  },
+
+  collage: {
+    needsExactly: (layout, n) => `${layout} kræver præcis ${n} tegninger.`,
+    needsBetween: (layout, min, max) => `${layout} kræver ${min}–${max} tegninger.`,
+    layouts: { grid: "Gitter", diptych: "Diptykon", triptych: "Triptykon" },
+    outputs: { poster: "Én plakat", set: "Matchende sæt af print" },
+  },
+
+  quota: {
+    left: (remaining, limit) => `${remaining} af ${limit} plakater tilbage i dag`,
+    none: "Ikke flere plakater i dag",
+    moreAt: (time) => `, flere kl. ${time}`,
+  },
+
+  errors: {
+    codes: {
+      missing_image: "Der blev ikke uploadet nogen tegning.",
+      unsupported_format: "Filen er ikke et JPEG-, PNG- eller WebP-billede.",
+      file_too_large: "Filen er for stor.",
+      dimensions_too_large: "Billedet har for mange pixels.",
+      unreadable_image: "Filen kunne ikke læses som et billede.",
+      invalid_param: "En af indstillingerne blev ikke godtaget.",
+      not_found: "Den findes ikke længere.",
+      forbidden: "Den tilhører en anden.",
+      rate_limited: "For mange plakater lige nu. Prøv igen om lidt.",
+      quota_exceeded: "Ikke flere plakater i dag.",
+      not_ready: "Den er ikke klar endnu. Prøv igen om lidt.",
+      timeout: "Det tog for lang tid at male. Prøv igen.",
+      provider_busy: "Maleren har travlt lige nu. Prøv igen om lidt.",
+      provider_unavailable: "Maleren kunne ikke nås. Prøv igen senere.",
+      content_rejected: "Maleren afviste tegningen eller titlen. Prøv en anden.",
+      provider_error: "Maleren fejlede. Prøv igen senere.",
+      internal: "Der gik noget galt hos os.",
+    },
+    fields: {
+      name: "Navnet skal være 1–40 tegn.",
+      birthDate: "Fødselsdatoen skal være en rigtig dato, der ikke ligger i fremtiden.",
+    },
+    retryIn: (seconds) => `For mange plakater lige nu. Prøv igen om ${seconds} ${s(seconds, "sekund", "sekunder")}.`,
+    onlyLeft: (remaining) => `Kun ${remaining} ${s(remaining, "plakat", "plakater")} tilbage i dag.`,
+    tooManyFiles: (max) => `Højst ${max} tegninger ad gangen.`,
+    network: "Kunne ikke nå serveren. Tjek forbindelsen og prøv igen.",
+  },
+
+  poster: {
+    heading: "Plakat",
+    empty: "Lav en plakat for at se resultatet",
+    alt: "plakat",
+    fidelity: (pct) => `Linjetroskab ${pct}%`,
+    fidelityTitle: "Hvor tæt plakaten holder sig til tegningens linjer",
+    download: "Hent PNG",
+    inRoom: "I stuen",
+    posterOnly: "Kun plakaten",
+    inRoomTitle: "Se plakaten i ramme på en stuevæg",
+    editRegion: "Ret et område",
+    cancelEdit: "Annullér",
+    variation: (n) => `variant ${n}`,
+    keep: "Behold",
+    reject: "Fravælg",
+  },
+
+  refine: {
+    placeholder: "Finpuds, fx blødere farver",
+    maskPlaceholder: "Hvad skal ændres? fx gør himlen gul",
+    button: "Finpuds",
+    maskButton: "Mal området om",
+    undo: "Fortryd",
+    undoTitle: "Gå tilbage til den version, denne blev finpudset fra",
+    working: "Finpudser plakaten…",
+    maskWorking: "Maler det valgte område om…",
+    lowFidelity: "Færdig, men finpudsningen kan have ændret tegningen. Gå et skridt tilbage, hvis det behøves.",
+    doneMasked: "Færdig! Kun det malede område blev ændret.",
+    done: "Færdig! Plakaten er finpudset.",
+    failed: (msg) => `Finpudsning mislykkedes: ${msg}`,
+  },
+
+  history: {
+    heading: "Historik",
+    stopComparing: "Stop sammenligning",
+    compare: "Sammenlign",
+    comparing: "Sammenligner",
+    area: "(område)",
+  },
+
+  mask: {
+    brush: "Pensel",
+    lasso: "Lasso",
+    size: "Størrelse",
+    clear: "Ryd maske",
+  },
+
+  print: {
+    paper: "Papir",
+    orientation: "Retning",
+    portrait: "Stående",
+    landscape: "Liggende",
+    margin: "Passepartout (mm)",
+    bleed: "Beskæring (mm)",
+    format: "Format",
+    pdf: "PDF (trykkeri)",
+    png: "PNG 300 DPI",
+    button: "Gør klar til print",
+    preparing: (paper, output) => `Gør ${paper} ${output} klar…`,
+    ready: "Printfilen er klar.",
+    failed: (msg) => `Eksport mislykkedes: ${msg}`,
+  },
+
+  mockup: {
+    alt: "plakat på en stuevæg",
+    rendering: "Tegner stuen…",
+    frame: "Ramme",
+    mat: "Passepartout",
+    customWall: "Egen vægfarve",
+    sofa: (cm) => `sofa ${cm} cm`,
+    download: "Stuebillede",
+    failed: (msg) => `Stuebilledet mislykkedes: ${msg}`,
+    frames: { oak: "Eg", black: "Sort", white: "Hvid", none: "Ingen ramme" },
+    walls: {
+      "warm-white": "Varm hvid",
+      sage: "Salvie",
+      "dusty-blue": "Støvet blå",
+      blush: "Rosa",
+      terracotta: "Terrakotta",
+      charcoal: "Koksgrå",
+    },
+  },
+
+  batch: {
+    drawings: (n) => `${n} ${s(n, "tegning", "tegninger")}`,
+    progress: (done, failed) => `${done} færdige${failed ? `, ${failed} mislykkedes` : ""}`,
+    zip: "Hent ZIP",
+    zipPart: (i, n) => `Hent ZIP ${i} af ${n}`,
+    remove: "Fjern",
+  },
+
+  children: {
+    none: "Intet barn",
+    add: "+ Nyt barn…",
+    name: "Navn",
+    birthDate: "Fødselsdato",
+    saveFavourites: "Gem nuværende stil og farver",
+    addButton: "Tilføj",
+    cancel: "Annullér",
+    favouritesTitle: "Brug den nuværende stil og farverne som favoritter",
+    removeTitle: "Fjern profil",
+    confirmRemove: (name) => `Fjern ${name}s profil? Plakaterne bliver i galleriet.`,
+    saveFailed: (msg) => `Barnet kunne ikke gemmes: ${msg}`,
+    removeFailed: (msg) => `Barnet kunne ikke fjernes: ${msg}`,
+    caption: (name, age, month) => `${name}, ${age} år — ${month}`,
+  },
+
+  share: {
+    button: "Del",
+    title: "Lav en side med plakaten, som du kan sende til familien",
+    copied: "Linket er kopieret.",
+    shared: "Plakaten er delt.",
+    failed: (msg) => `Deling mislykkedes: ${msg}`,
+    revoked: "Linket er slået fra. Plakaten er ikke længere delt.",
+    link: "Delingslink",
+    passOn: "Del eller kopiér linket",
+    passOnButton: "Del link",
+    copyManually: "Kopiér linket ovenfor for at dele det.",
+    stop: "Stop deling",
+    confirmStop: "Stop med at dele plakaten? Linket holder op med at virke for alle.",
+    stopFailed: (msg) => `Delingen kunne ikke stoppes: ${msg}`,
+    noLongerShared: "Plakaten er ikke længere delt.",
+    fallbackTitle: "En børneplakat",
+    description: "En plakat lavet ud fra et barns tegning.",
+    notFound: "Plakaten findes ikke",
+    gone: "Plakaten er ikke delt længere",
+    goneHint: "Linket kan være slået fra, eller der er en slåfejl i det.",
+    makeYourOwn: "Lav en plakat ud fra din egen tegning",
+  },
+
+  gallery: {
+    allChildren: "Alle børn",
+    empty: "Ingen plakater endnu. Lav en, så dukker den op her.",
+    loadMore: "Vis flere",
+    loading: "Henter…",
+    loadFailed: (msg) => `Kunne ikke hente: ${msg}`,
+    regenerating: "Laver den igen med samme indstillinger…",
+    regenerated: "Færdig! Den nye plakat ligger øverst.",
+    regenerateFailed: (msg) => `Kunne ikke lave den igen: ${msg}`,
+    regenerateTitle: "Lav igen med samme indstillinger",
+    confirmDelete: "Slet plakaten og den originale tegning?",
+    deleted: "Slettet.",
+    deleteFailed: (msg) => `Sletning mislykkedes: ${msg}`,
+    delete: "Slet",
+    download: "Hent",
+    originalAlt: "original tegning",
+    collageDrawings: (n, layout) => `${n} tegninger · ${layout}`,
+    posters: (n) => `${n} ${s(n, "plakat", "plakater")}`,
+    child: "Barn",
+    style: "Stil",
+    palette: "Farver",
+    enforced: "(præcis)",
+    shapes: "Figurer",
+    shapesAllowed: "Tilladt",
+    shapesNotAllowed: "Ikke tilladt",
+    title: "Titel",
+    size: "Størrelse",
+    created: "Lavet",
+    prompt: "Prompt",
+  },
+
+  styles: {
+    matisse: "Matisse-agtig",
+    bauhaus: "Bauhaus",
+    "mid-century": "Mid-century",
+    minimalist: "Minimalistisk",
+  },
+
+  palettes: {
+    "nordic-living": "Nordisk hjem",
+    sunset: "Solnedgang",
+    ocean: "Hav",
+    forest: "Skov",
+    candy: "Slik",
+    monochrome: "Sort-hvid",
+  },
+
+  titleLayouts: {
+    "bottom-bar": "Bjælke forneden",
+    "top-band": "Bånd foroven",
+    "gallery-label": "Museumsskilt",
+    spine: "Lodret ryg",
+  },
+
+  titleFonts: { fredoka: "Fredoka (legende)", nunito: "Nunito (enkel)" },
+};
@@ -0,0 +1,358 @@
+// lib/i18n/en.ts
+// English UI strings. Every locale provides the same keys (see da.ts).
+
+import type { CollageLayout, CollageOutput } from "../collage-layouts";
+import type { ErrorCode } from "../errors";
+import type { FrameId, WallColourId } from "../frames";
+import type { PalettePresetId } from "../palettes";
+import type { StyleId } from "../styles";
+import type { TitleFont, TitleLayout } from "../title-layouts";
+
+const s = (n: number, one: string, many: string) => (n === 1 ? one : many);
+
+export const en = {
+  languageName: "English",
+  language: "Language",
+
+  app: {
+    title: "Kids Art → Living-Room Poster",
+    description: "Turn a child's drawing into a poster for the living room.",
+    gallery: "Gallery",
+    makePoster: "Make a poster",
+    tryAgain: "Try again",
+  },
+
+  // What the user sees for each server pipeline stage.
+  stages: {
+    queued: "Waiting in line…",
+    preparing: "Preparing your drawing…",
+    generating: "Painting the poster…",
+    retrying: "Redrawing closer to the original…",
+    storing: "Saving poster…",
+    done: "Finishing up…",
+  } as Record<string, string>,
+
+  upload: {
+    idle: "Choose a PNG/JPG. You should see a filename and preview below.",
+    chooseFile: "Choose file",
+    chooseFolder: "Choose folder",
+    dropHint: (max: number) => `or drag & drop an image here (2–${max} for a collage)`,
+    dropBatchHint: "or drop drawings or a whole folder here",
+    batchMode: "Batch mode",
+    notAnImage: "Please choose a PNG or JPG image.",
+    preparingImage: "Preparing image…",
+    preparingDrawings: "Preparing drawings…",
+    selected: (name: string) => `Selected: ${name}`,
+    selectedSending: (name: string, kb: number) => `Selected: ${name} → sending ${kb} KB`,
+    selectedBatch: (n: number) => `Selected ${n} ${s(n, "drawing", "drawings")} for a batch.`,
+    selectedCollage: (n: number, max: number | null) =>
+      `Selected ${n} drawings for a collage` + (max ? ` (only the first ${max} are used).` : "."),
+    selectFirst: "Select an image first.",
+    selectDrawingsFirst: "Select some drawings first.",
+    noImage: "No image yet",
+    original: "Original",
+    drawing: (n: number) => `drawing ${n}`,
+    removeDrawing: "Remove drawing",
+    cleaned: "cleaned",
+  },
+
+  cleanup: {
+    toggle: "Photo of paper: straighten & clean",
+    apply: "Apply crop & cleanup",
+    adjust: "Adjust corners",
+    hint: "Drag the corners to the paper edges.",
+    working: "Straightening and cleaning photo…",
+    done: "Photo cleaned up. Ready to generate.",
+    failed: (msg: string) => `Cleanup failed: ${msg}`,
+  },
+
+  controls: {
+    style: "Style",
+    palette: "Palette",
+    paletteStyle: "Style default",
+    paletteDrawing: "From drawing",
+    paletteCustom: "Custom",
+    accent: (colour: string) => `${colour} (accent)`,
+    addColour: "Add colour",
+    removeColour: "Remove last colour",
+    paletteFailed: (msg: string) => `Palette extraction failed: ${msg}`,
+    enforcePalette: "Enforce palette exactly",
+    allowShapes: "Allow simple shapes",
+    aiText: "Let AI render title",
+    overlayTitle: "Overlay clean title (recommended)",
+    titlePlaceholder: "Poster title (optional)",
+    captionPlaceholder: (example: string) => `Caption, e.g. ${example}`,
+    titleLayout: "Layout",
+    titleFont: "Font",
+    collageLayout: "Layout",
+    variations: "Variations",
+    fidelity: "Fidelity check",
+    fidelityWarn: "Warn",
+    fidelityRetry: "Auto-retry",
+    fidelityOff: "Off",
+    fastMode: "Fast mode (square)",
+  },
+
+  generate: {
+    button: "Generate Poster",
+    batchButton: (n: number) => `Generate ${n} ${s(n, "Poster", "Posters")}`,
+    busy: "Generating…",
+    generatingBatch: (n: number) => `Generating ${n} ${s(n, "poster", "posters")}…`,
+    anew: "Generate anew",
+    anewTitle: "Skip the saved result and generate new posters",
+    regenerateRejected: (n: number) => `Regenerate rejected (${n})`,
+    failed: (msg: string) => `Generation failed: ${msg}`,
+    noPosters: "No posters in job result",
+    cached: "Same drawing and settings as before, so this is the saved poster. Use “Generate anew” for a fresh one.",
+    someFailed: (missing: number, count: number) => `Done, but ${missing} of ${count} variations failed.`,
+    lowFidelity: (low: number, count: number) =>
+      `Done, but ${low === 1 && count === 1 ? "the poster" : `${low} ${s(low, "poster", "posters")}`} may have changed the drawing. Check before printing.`,
+    square: (square: number, count: number) =>
+      `Done! Time ran short, so ${
+        square === 1 && count === 1 ? "the poster is" : `${square} ${s(square, "poster is", "posters are")}`
+      } square instead of portrait.`,
+    doneSet: "Done! Your matched set is ready.",
+    doneCollage: "Done! Collage generated.",
+    doneMany: "Done! Pick your favourite.",
+    doneOne: "Done! Poster generated.",
+    batchSomeFailed: (failed: number, count: number) =>
+      `Done, but ${failed} of ${count} drawings failed. Download the ZIP for the rest.`,
+    batchDone: "Done! Download all posters as a ZIP.",
+  },
+
+  collage: {
+    needsExactly: (layout: string, n: number) => `${layout} needs exactly ${n} drawings.`,
+    needsBetween: (layout: string, min: number, max: number) => `${layout} needs ${min}–${max} drawings.`,
+    layouts: { grid: "Grid", diptych: "Diptych", triptych: "Triptych" } as Record<CollageLayout, string>,
+    outputs: { poster: "One poster", set: "Matched set of prints" } as Record<CollageOutput, string>,
+  },
+
+  quota: {
+    left: (remaining: number, limit: number) => `${remaining} of ${limit} posters left today`,
+    none: "No posters left today",
+    moreAt: (time: string) => `, more at ${time}`,
+  },
+
+  // Server errors by their envelope code; the server's own (English) text is
+  // only shown for a code missing here.
+  errors: {
+    codes: {
+      missing_image: "No drawing was uploaded.",
+      unsupported_format: "That file isn't a JPEG, PNG or WebP image.",
+      file_too_large: "That file is too large.",
+      dimensions_too_large: "That picture has too many pixels.",
+      unreadable_image: "That file couldn't be read as an image.",
+      invalid_param: "One of the settings wasn't accepted.",
+      not_found: "It's no longer there.",
+      forbidden: "That belongs to someone else.",
+      rate_limited: "Too many posters right now. Try again in a moment.",
+      quota_exceeded: "No posters left today.",
+      not_ready: "It isn't ready yet. Try again in a moment.",
+      timeout: "Painting took too long. Try again.",
+      provider_busy: "The painter is busy right now. Try again in a moment.",
+      provider_unavailable: "The painter couldn't be reached. Try again later.",
+      content_rejected: "The painter refused this drawing or title. Try another one.",
+      provider_error: "The painter failed. Try again later.",
+      internal: "Something went wrong on our side.",
+    } as Partial<Record<ErrorCode, string>>,
+    // invalid_param for a field the user typed in.
+    fields: {
+      name: "The name must be 1–40 characters.",
+      birthDate: "The birth date must be a real date, not in the future.",
+    } as Record<string, string>,
+    retryIn: (seconds: number) => `Too many posters right now. Try again in ${seconds} ${s(seconds, "second", "seconds")}.`,
+    onlyLeft: (remaining: number) => `Only ${remaining} ${s(remaining, "poster", "posters")} left today.`,
+    tooManyFiles: (max: number) => `At most ${max} drawings at once.`,
+    network: "Couldn't reach the server. Check the connection and try again.",
+  },
+
+  poster: {
+    heading: "Poster",
+    empty: "Generate to see result",
+    alt: "poster",
+    fidelity: (pct: number) => `Fidelity ${pct}%`,
+    fidelityTitle: "How closely the poster keeps the original lines",
+    download: "Download PNG",
+    inRoom: "In the room",
+    posterOnly: "Poster only",
+    inRoomTitle: "Preview the poster framed on a living-room wall",
+    editRegion: "Edit region",
+    cancelEdit: "Cancel edit",
+    variation: (n: number) => `variation ${n}`,
+    keep: "Keep",
+    reject: "Reject",
+  },
+
+  refine: {
+    placeholder: "Refine further, e.g. softer colours",
+    maskPlaceholder: "What should change? e.g. make the sky yellow",
+    button: "Refine",
+    maskButton: "Repaint area",
+    undo: "Undo",
+    undoTitle: "Step back to the version this one was refined from",
+    working: "Refining the poster…",
+    maskWorking: "Repainting the selected area…",
+    lowFidelity: "Done, but the refinement may have changed the drawing. Step back if needed.",
+    doneMasked: "Done! Only the painted area was changed.",
+    done: "Done! Poster refined.",
+    failed: (msg: string) => `Refine failed: ${msg}`,
+  },
+
+  history: {
+    heading: "History",
+    stopComparing: "Stop comparing",
+    compare: "Compare",
+    comparing: "Comparing",
+    area: "(area)",
+  },
+
+  mask: {
+    brush: "Brush",
+    lasso: "Lasso",
+    size: "Size",
+    clear: "Clear mask",
+  },
+
+  print: {
+    paper: "Paper",
+    orientation: "Orientation",
+    portrait: "Portrait",
+    landscape: "Landscape",
+    margin: "Passe-partout (mm)",
+    bleed: "Bleed (mm)",
+    format: "Format",
+    pdf: "PDF (print shop)",
+    png: "PNG 300 DPI",
+    button: "Export for print",
+    preparing: (paper: string, output: string) => `Preparing ${paper} ${output}…`,
+    ready: "Print file ready.",
+    failed: (msg: string) => `Export failed: ${msg}`,
+  },
+
+  mockup: {
+    alt: "poster on a living-room wall",
+    rendering: "Rendering mockup…",
+    frame: "Frame",
+    mat: "Passe-partout",
+    customWall: "Custom wall colour",
+    sofa: (cm: number) => `sofa ${cm} cm`,
+    download: "Mockup",
+    failed: (msg: string) => `Mockup failed: ${msg}`,
+    frames: { oak: "Oak", black: "Black", white: "White", none: "No frame" } as Record<FrameId, string>,
+    walls: {
+      "warm-white": "Warm white",
+      sage: "Sage",
+      "dusty-blue": "Dusty blue",
+      blush: "Blush",
+      terracotta: "Terracotta",
+      charcoal: "Charcoal",
+    } as Record<WallColourId, string>,
+  },
+
+  batch: {
+    drawings: (n: number) => `${n} ${s(n, "drawing", "drawings")}`,
+    progress: (done: number, failed: number) => `${done} done${failed ? `, ${failed} failed` : ""}`,
+    zip: "Download ZIP",
+    // One ZIP per batch the drawings were sent in.
+    zipPart: (i: number, n: number) => `Download ZIP ${i} of ${n}`,
+    remove: "Remove",
+  },
+
+  children: {
+    none: "No child",
+    add: "+ New child…",
+    name: "Name",
+    birthDate: "Birth date",
+    saveFavourites: "Save current style & palette",
+    addButton: "Add",
+    cancel: "Cancel",
+    favouritesTitle: "Use the current style and palette as favourites",
+    removeTitle: "Remove profile",
+    confirmRemove: (name: string) => `Remove ${name}'s profile? Their posters stay in the gallery.`,
+    saveFailed: (msg: string) => `Saving child failed: ${msg}`,
+    removeFailed: (msg: string) => `Removing child failed: ${msg}`,
+    // The automatic caption, e.g. "Ida, age 5 — October 2026".
+    caption: (name: string, age: number, month: string) => `${name}, age ${age} — ${month}`,
+  },
+
+  share: {
+    button: "Share",
+    title: "Make a page for this poster that you can send to family",
+    copied: "Share link copied.",
+    shared: "Poster shared.",
+    failed: (msg: string) => `Sharing failed: ${msg}`,
+    revoked: "Link revoked. The poster is no longer shared.",
+    link: "Share link",
+    passOn: "Share or copy the link",
+    passOnButton: "Share link",
+    copyManually: "Copy the link above to share it.",
+    stop: "Stop sharing",
+    confirmStop: "Stop sharing this poster? The link will stop working for everyone.",
+    stopFailed: (msg: string) => `Couldn't stop sharing: ${msg}`,
+    noLongerShared: "This poster is no longer shared.",
+    fallbackTitle: "A kids' poster",
+    description: "A poster made from a child's drawing.",
+    notFound: "Poster not found",
+    gone: "This poster isn't shared anymore",
+    goneHint: "The link may have been revoked, or it was mistyped.",
+    makeYourOwn: "Make a poster from your own drawing",
+  },
+
+  gallery: {
+    allChildren: "All children",
+    empty: "No posters yet. Generate one and it will show up here.",
+    loadMore: "Load more",
+    loading: "Loading…",
+    loadFailed: (msg: string) => `Loading failed: ${msg}`,
+    regenerating: "Regenerating with the same settings…",
+    regenerated: "Done! The new poster is at the top.",
+    regenerateFailed: (msg: string) => `Regenerate failed: ${msg}`,
+    regenerateTitle: "Regenerate with the same settings",
+    confirmDelete: "Delete this poster and its original drawing?",
+    deleted: "Deleted.",
+    deleteFailed: (msg: string) => `Delete failed: ${msg}`,
+    delete: "Delete",
+    download: "Download",
+    originalAlt: "original drawing",
+    collageDrawings: (n: number, layout: string) => `${n} drawings · ${layout}`,
+    posters: (n: number) => `${n} ${s(n, "poster", "posters")}`,
+    child: "Child",
+    style: "Style",
+    palette: "Palette",
+    enforced: "(enforced)",
+    shapes: "Shapes",
+    shapesAllowed: "Allowed",
+    shapesNotAllowed: "Not allowed",
+    title: "Title",
+    size: "Size",
+    created: "Created",
+    prompt: "Prompt",
+  },
+
+  styles: {
+    matisse: "Matisse-esque",
+    bauhaus: "Bauhaus",
+    "mid-century": "Mid-century",
+    minimalist: "Minimalist",
+  } as Record<StyleId, string>,
+
+  palettes: {
+    "nordic-living": "Nordic living",
+    sunset: "Sunset",
+    ocean: "Ocean",
+    forest: "Forest",
+    candy: "Candy",
+    monochrome: "Monochrome",
+  } as Record<PalettePresetId, string>,
+
+  titleLayouts: {
+    "bottom-bar": "Bottom bar",
+    "top-band": "Top band",
+    "gallery-label": "Gallery label",
+    spine: "Vertical spine",
+  } as Record<TitleLayout, string>,
+
+  titleFonts: { fredoka: "Fredoka (playful)", nunito: "Nunito (clean)" } as Record<TitleFont, string>,
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { ApiError } from "../errors";
+import { QuotaError } from "../ratelimit/client";
+import { envelopeText, errorText, getMessages } from "./index";
+
+const da = getMessages("da");
+
+describe("error text", () => {
+  it("uses the catalogue's line for a known code", () => {
+    const err = new ApiError({ error: "The image provider is busy", code: "provider_busy", retryable: true });
+    expect(errorText(da, err)).toBe(da.errors.codes.provider_busy);
+  });
+
+  it("falls back to the server's text for an unknown code", () => {
+    const envelope = { error: "Something new", code: "brand_new" as never };
+    expect(envelopeText(da, envelope)).toBe("Something new");
+  });
+
+  it("says how long to wait and how many posters are left", () => {
+    expect(errorText(da, new QuotaError("Slow down", "rate_limited", 30, 5))).toBe(da.errors.retryIn(30));
+    expect(errorText(da, new QuotaError("Only 2 left", "quota_exceeded", null, 2))).toBe(da.errors.onlyLeft(2));
+    expect(errorText(da, new QuotaError("None left", "quota_exceeded", null, 0))).toBe(da.errors.codes.quota_exceeded);
+    expect(envelopeText(da, { error: "Slow down", code: "rate_limited", details: { retryAfter: 12 } })).toBe(
+      da.errors.retryIn(12)
+    );
+  });
+
+  it("names the field a parent typed in", () => {
+    const envelope = { error: "name must be 1–40 characters", code: "invalid_param" as const, details: { field: "name" } };
+    expect(envelopeText(da, envelope)).toBe(da.errors.fields.name);
+  });
+
+  it("treats a failed fetch as a network error", () => {
+    expect(errorText(da, new TypeError("Failed to fetch"))).toBe(da.errors.network);
+  });
+});
@@ -0,0 +1,81 @@
+// lib/i18n/index.ts
+// UI languages and the message catalogue. Client-safe.
+
+import { ApiError, ErrorEnvelope } from "../errors";
+import { QuotaError } from "../ratelimit/client";
+import { da } from "./da";
+import { en, Messages } from "./en";
+
+export type { Messages };
+
+export type Locale = "da" | "en";
+
+export const LOCALES: Locale[] = ["da", "en"];
+export const DEFAULT_LOCALE: Locale = "en";
+// Set by the language switcher; wins over Accept-Language.
+export const LOCALE_COOKIE = "kp_locale";
+
+const CATALOGUES: Record<Locale, Messages> = { da, en };
+
+// BCP 47 tags for Intl formatting.
+const INTL_LOCALES: Record<Locale, string> = { da: "da-DK", en: "en-GB" };
+
+export function isLocale(v: string | null | undefined): v is Locale {
+  return !!v && (LOCALES as string[]).includes(v);
+}
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGUES[locale];
+}
+
+export function intlLocale(locale: Locale): string {
+  return INTL_LOCALES[locale];
+}
+
+// The best supported language of an Accept-Language header, by q-value.
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranked = (acceptLanguage || "")
+    .split(",")
+    .map((part, i) => {
+      const [tag, ...params] = part.trim().toLowerCase().split(";");
+      const q = params.map((p) => /^\s*q=([\d.]+)\s*$/.exec(p)?.[1]).find(Boolean);
+      return { lang: tag.split("-")[0], q: q === undefined ? 1 : Number(q), i };
+    })
+    .filter((l) => l.lang && l.q > 0)
+    .sort((a, b) => b.q - a.q || a.i - b.i);
+  return ranked.map((l) => l.lang).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+// The switcher's cookie if it holds a supported locale, else the browser's
+// preference.
+export function pickLocale(cookie: string | null | undefined, acceptLanguage: string | null | undefined): Locale {
+  return isLocale(cookie) ? cookie : negotiateLocale(acceptLanguage);
+}
+
+// The user's text for an error envelope (a failed response, job or batch
+// item): the catalogue's line for its code, the server's English `error` only
+// for a code the catalogue doesn't know.
+export function envelopeText(t: Messages, { error, code, details }: Pick<ErrorEnvelope, "error" | "code" | "details">): string {
+  if (code === "rate_limited" && typeof details?.retryAfter === "number") return t.errors.retryIn(details.retryAfter);
+  if (code === "invalid_param" && details?.field === "image" && typeof details.max === "number") {
+    return t.errors.tooManyFiles(details.max);
+  }
+  if (code === "invalid_param" && typeof details?.field === "string" && t.errors.fields[details.field]) {
+    return t.errors.fields[details.field];
+  }
+  return t.errors.codes[code] ?? error;
+}
+
+// The user's text for anything a request threw: quota refusals and API errors
+// by their code, a failed fetch as a network error, anything else as is.
+export function errorText(t: Messages, err: unknown): string {
+  if (err instanceof QuotaError) {
+    if (err.code === "rate_limited" && err.retryAfter) return t.errors.retryIn(err.retryAfter);
+    if (err.code === "quota_exceeded" && err.remaining) return t.errors.onlyLeft(err.remaining);
+    return envelopeText(t, { error: err.message, code: err.code });
+  }
+  if (err instanceof ApiError) return envelopeText(t, { error: err.message, code: err.code, details: err.details });
+  // fetch rejects with a TypeError when the server can't be reached.
+  if (err instanceof TypeError) return t.errors.network;
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,56 @@
+// lib/jobs/client.ts
+// Browser-side helper for following a job started by an API route.
+
+import { ApiError, readErrorEnvelope } from "../errors";
+import type { Job } from "./types";
+
+// The error envelope of a failed job as a throwable error.
+export function jobError(job: Job): ApiError {
+  return new ApiError({
+    error: job.error || "Generation failed",
+    code: job.code || "internal",
+    retryable: !!job.retryable,
+    details: job.details,
+  });
+}
+
+// Follow a job over SSE until it finishes; fall back to polling
+// if the event stream is unavailable.
+export function waitForJob<T>(jobId: string, onUpdate: (job: Job<T>) => void = () => {}): Promise<Job<T>> {
+  return new Promise((resolve, reject) => {
+    const finish = (job: Job<T>) => {
+      onUpdate(job);
+      if (job.status === "done" || job.status === "failed") {
+        resolve(job);
+        return true;
+      }
+      return false;
+    };
+
+    const poll = async () => {
+      try {
+        for (;;) {
+          const res = await fetch(`/api/jobs/${jobId}`, { cache: "no-store" });
+          if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+          if (finish((await res.json()) as Job<T>)) return;
+          await new Promise((r) => setTimeout(r, 1500));
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    if (typeof EventSource === "undefined") {
+      void poll();
+      return;
+    }
+    const es = new EventSource(`/api/jobs/${jobId}/events`);
+    es.addEventListener("job", (e) => {
+      if (finish(JSON.parse((e as MessageEvent<string>).data) as Job<T>)) es.close();
+    });
+    es.onerror = () => {
+      es.close();
+      void poll();
+    };
+  });
+}
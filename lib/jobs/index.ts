@@ -0,0 +1,35 @@
+// lib/jobs/index.ts
+
+import { ErrorEnvelope, internalError } from "../errors";
+import { createMemoryJobStore } from "./memory";
+import { Job, JobStore } from "./types";
+
+export * from "./types";
+export { createMemoryJobStore };
+
+// Keep one store per process, surviving dev-server module reloads.
+const globalForJobs = globalThis as unknown as { __jobStore?: JobStore };
+
+export function getJobStore(): JobStore {
+  if (!globalForJobs.__jobStore) globalForJobs.__jobStore = createMemoryJobStore();
+  return globalForJobs.__jobStore;
+}
+
+export type ReportStage = (stage: string, progress: number) => void;
+
+// Drive a job through running → done/failed around `work`. Failures the
+// caller doesn't describe are logged and reported generically.
+export async function runJob<T>(
+  store: JobStore,
+  job: Job<T>,
+  work: (report: ReportStage) => Promise<T>,
+  describeError: (err: unknown) => ErrorEnvelope = internalError
+): Promise<void> {
+  store.update<T>(job.id, { status: "running", progress: 0 });
+  try {
+    const result = await work((stage, progress) => store.update<T>(job.id, { stage, progress }));
+    store.update<T>(job.id, { status: "done", stage: "done", progress: 100, result });
+  } catch (err) {
+    store.update<T>(job.id, { status: "failed", ...describeError(err) });
+  }
+}
@@ -0,0 +1,48 @@
+// lib/jobs/memory.ts
+
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { isFinished, Job, JobPatch, JobStore } from "./types";
+
+// Process-local job store. Finished jobs are dropped after `ttlMs`.
+// Only suitable for a single server instance.
+export function createMemoryJobStore(ttlMs = 60 * 60 * 1000): JobStore {
+  const jobs = new Map<string, Job<unknown>>();
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+
+  function sweep() {
+    const cutoff = Date.now() - ttlMs;
+    for (const [id, job] of jobs) {
+      if (isFinished(job) && job.updatedAt < cutoff) jobs.delete(id);
+    }
+  }
+
+  return {
+    create<T>() {
+      sweep();
+      const now = Date.now();
+      const job: Job<T> = { id: randomUUID(), status: "queued", progress: 0, createdAt: now, updatedAt: now };
+      jobs.set(job.id, job);
+      return { ...job };
+    },
+    get<T>(id: string) {
+      const job = jobs.get(id);
+      return job ? ({ ...job } as Job<T>) : null;
+    },
+    update<T>(id: string, patch: JobPatch<T>) {
+      const job = jobs.get(id);
+      if (!job) return null;
+      Object.assign(job, patch, { updatedAt: Date.now() });
+      const snapshot = { ...job } as Job<T>;
+      events.emit(id, snapshot);
+      return snapshot;
+    },
+    subscribe(id, listener) {
+      events.on(id, listener);
+      return () => {
+        events.off(id, listener);
+      };
+    },
+  };
+}
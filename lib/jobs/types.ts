@@ -0,0 +1,39 @@
+// lib/jobs/types.ts
+
+import type { ErrorEnvelope } from "../errors";
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+export type Job<T = unknown> = {
+  id: string;
+  status: JobStatus;
+  // Human-readable pipeline stage, e.g. "generating".
+  stage?: string;
+  // 0–100, best effort.
+  progress: number;
+  result?: T;
+  // A failed job carries the error envelope's fields (see lib/errors).
+  error?: string;
+  code?: ErrorEnvelope["code"];
+  retryable?: boolean;
+  details?: ErrorEnvelope["details"];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type JobPatch<T> = Partial<Pick<Job<T>, "status" | "stage" | "progress" | "result" | "error" | "code" | "retryable" | "details">
+>;
+
+export type JobListener<T> = (job: Job<T>) => void;
+
+export interface JobStore {
+  create<T>(): Job<T>;
+  get<T>(id: string): Job<T> | null;
+  update<T>(id: string, patch: JobPatch<T>): Job<T> | null;
+  // Returns an unsubscribe function.
+  subscribe<T>(id: string, listener: JobListener<T>): () => void;
+}
+
+export function isFinished(job: Job): boolean {
+  return job.status === "done" || job.status === "failed";
+}
@@ -0,0 +1,51 @@
+// lib/masking.ts
+// Region editing: the client paints a mask over the poster (opaque = repaint),
+// the provider edits that area, and the result is composited back so that
+// unmasked pixels stay byte-for-byte identical to the original.
+
+import sharp from "sharp";
+
+export type EditMask = { alpha: Buffer; width: number; height: number; painted: number };
+
+// Read the client's mask (any image; its alpha channel marks the area) at the
+// artwork's size. `painted` is the number of pixels that will change.
+export async function readMask(mask: Uint8Array, width: number, height: number): Promise<EditMask> {
+  const alpha = await sharp(mask)
+    .ensureAlpha()
+    .extractChannel(3)
+    .resize(width, height, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  let painted = 0;
+  for (const a of alpha) if (a > 0) painted++;
+  return { alpha, width, height, painted };
+}
+
+// OpenAI's convention: transparent pixels are the ones to edit.
+export async function toProviderMask({ alpha, width, height }: EditMask): Promise<Blob> {
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < alpha.length; i++) {
+    rgba[i * 4 + 3] = 255 - alpha[i];
+  }
+  const png = await sharp(rgba, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return new Blob([new Uint8Array(png)], { type: "image/png" });
+}
+
+// Blend `edited` into `original` by mask alpha. Pixels with alpha 0 are copied
+// unchanged; partially painted (anti-aliased) edges are mixed.
+export async function compositeMasked(original: Uint8Array, edited: Uint8Array, mask: EditMask): Promise<Uint8Array> {
+  const { width, height, alpha } = mask;
+  const orig = await sharp(original).removeAlpha().raw().toBuffer();
+  const edit = await sharp(edited).resize(width, height, { fit: "fill" }).removeAlpha().raw().toBuffer();
+  const out = Buffer.from(orig);
+  for (let i = 0; i < alpha.length; i++) {
+    const a = alpha[i];
+    if (!a) continue;
+    for (let c = 0; c < 3; c++) {
+      const j = i * 3 + c;
+      out[j] = Math.round((orig[j] * (255 - a) + edit[j] * a) / 255);
+    }
+  }
+  const png = await sharp(out, { raw: { width, height, channels: 3 } }).png().toBuffer();
+  return new Uint8Array(png);
+}
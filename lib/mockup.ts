@@ -0,0 +1,112 @@
+// lib/mockup.ts
+// Room mockup: the poster framed on a wall above a sofa, drawn to scale so
+// parents can judge a print size before ordering.
+
+import sharp from "sharp";
+import { FRAMES, MockupOptions, SOFA_WIDTH_MM } from "./frames";
+import { PAPER_FORMATS } from "./paper";
+
+export * from "./frames";
+
+// The scene is laid out in millimetres and rendered at PX_PER_MM.
+const SCENE_W = 3000;
+const SCENE_H = 2200;
+const PX_PER_MM = 0.6;
+const FLOOR_Y = SCENE_H - 120;
+const FRAME_MM = 22;
+// Gap between the sofa back and the bottom of the frame.
+const HANG_GAP_MM = 230;
+
+const SOFA = { width: SOFA_WIDTH_MM, height: 820, seat: 440, arm: 170, legs: 100, color: "#8C939C", shade: "#737A83" };
+
+// Default passe-partout: a tenth of the short side, at least 3 cm.
+function matWidth({ format, mat, matMm }: MockupOptions): number {
+  if (!mat) return 0;
+  if (matMm > 0) return matMm;
+  const { widthMm, heightMm } = PAPER_FORMATS[format];
+  return Math.max(30, Math.round(Math.min(widthMm, heightMm) * 0.1));
+}
+
+function sofaSvg(): string {
+  const left = (SCENE_W - SOFA.width) / 2;
+  const right = left + SOFA.width;
+  const legTop = FLOOR_Y - SOFA.legs;
+  const seatTop = FLOOR_Y - SOFA.seat;
+  const backTop = FLOOR_Y - SOFA.height;
+  const armTop = FLOOR_Y - 640;
+  const cushion = (SOFA.width - 2 * SOFA.arm) / 3;
+  return `
+    <rect x="${left + 110}" y="${legTop}" width="35" height="${SOFA.legs}" fill="#5B4633"/>
+    <rect x="${right - 145}" y="${legTop}" width="35" height="${SOFA.legs}" fill="#5B4633"/>
+    <rect x="${left + SOFA.arm - 40}" y="${backTop}" width="${SOFA.width - 2 * SOFA.arm + 80}" height="${seatTop - backTop + 40}" rx="40" fill="${SOFA.shade}"/>
+    <rect x="${left}" y="${seatTop}" width="${SOFA.width}" height="${legTop - seatTop}" rx="24" fill="${SOFA.color}"/>
+    ${[0, 1, 2]
+      .map(
+        (i) =>
+          `<rect x="${left + SOFA.arm + i * cushion + 6}" y="${seatTop - 70}" width="${cushion - 12}" height="110" rx="30" fill="${SOFA.color}" stroke="${SOFA.shade}" stroke-width="6"/>`
+      )
+      .join("")}
+    <rect x="${left}" y="${armTop}" width="${SOFA.arm}" height="${legTop - armTop}" rx="50" fill="${SOFA.color}" stroke="${SOFA.shade}" stroke-width="6"/>
+    <rect x="${right - SOFA.arm}" y="${armTop}" width="${SOFA.arm}" height="${legTop - armTop}" rx="50" fill="${SOFA.color}" stroke="${SOFA.shade}" stroke-width="6"/>`;
+}
+
+// Render the mockup as a PNG. Throws RangeError for a mat wider than the paper.
+export async function renderMockup(poster: Uint8Array, opts: MockupOptions): Promise<Uint8Array> {
+  const { widthMm: pw, heightMm: ph } = PAPER_FORMATS[opts.format];
+  const [paperW, paperH] = opts.orientation === "landscape" ? [ph, pw] : [pw, ph];
+  const mat = matWidth(opts);
+  if (2 * mat >= Math.min(paperW, paperH)) throw new RangeError("Passe-partout is larger than the paper");
+
+  const frame = FRAMES[opts.frame];
+  const profile = frame.color ? FRAME_MM : 0;
+  const outerW = paperW + 2 * profile;
+  const outerH = paperH + 2 * profile;
+  const x = (SCENE_W - outerW) / 2;
+  const y = FLOOR_Y - SOFA.height - HANG_GAP_MM - outerH;
+
+  const frameSvg = frame.color
+    ? `<rect x="${x}" y="${y}" width="${outerW}" height="${outerH}" fill="${frame.color}" stroke="${frame.edge}" stroke-width="3"/>
+       <rect x="${x + profile - 3}" y="${y + profile - 3}" width="${paperW + 6}" height="${paperH + 6}" fill="${frame.edge}" opacity="0.5"/>`
+    : "";
+  const matSvg = mat
+    ? `<rect x="${x + profile}" y="${y + profile}" width="${paperW}" height="${paperH}" fill="#FBFAF7"/>
+       <rect x="${x + profile + mat - 2}" y="${y + profile + mat - 2}" width="${paperW - 2 * mat + 4}" height="${paperH - 2 * mat + 4}" fill="#E4E1D9"/>`
+    : "";
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${SCENE_W * PX_PER_MM}" height="${SCENE_H * PX_PER_MM}" viewBox="0 0 ${SCENE_W} ${SCENE_H}">
+    <defs>
+      <linearGradient id="light" x1="0" y1="0" x2="0" y2="1">
+        <stop offset="0" stop-color="#FFFFFF" stop-opacity="0.18"/>
+        <stop offset="1" stop-color="#000000" stop-opacity="0.08"/>
+      </linearGradient>
+      <filter id="blur" x="-20%" y="-20%" width="140%" height="140%"><feGaussianBlur stdDeviation="12"/></filter>
+    </defs>
+    <rect width="${SCENE_W}" height="${SCENE_H}" fill="${opts.wall}"/>
+    <rect width="${SCENE_W}" height="${FLOOR_Y}" fill="url(#light)"/>
+    <rect y="${FLOOR_Y - 70}" width="${SCENE_W}" height="70" fill="#F7F6F2"/>
+    <rect y="${FLOOR_Y}" width="${SCENE_W}" height="${SCENE_H - FLOOR_Y}" fill="#B8916A"/>
+    <rect x="${x + 10}" y="${y + 18}" width="${outerW}" height="${outerH}" fill="#000000" opacity="0.28" filter="url(#blur)"/>
+    ${frameSvg}
+    ${matSvg}
+    ${sofaSvg()}
+  </svg>`;
+
+  // The artwork fills the mat window (or the whole paper without a mat).
+  const px = (mm: number) => Math.round(mm * PX_PER_MM);
+  const left = px(x + profile + mat);
+  const top = px(y + profile + mat);
+  const width = px(x + profile + paperW - mat) - left;
+  const height = px(y + profile + paperH - mat) - top;
+  const art = await sharp(poster)
+    .rotate()
+    .resize(width, height, { fit: "cover", kernel: "lanczos3" })
+    .flatten({ background: "#ffffff" })
+    .toBuffer();
+
+  const png = await sharp(Buffer.from(svg))
+    .composite([{ input: art, left, top }])
+    .removeAlpha()
+    .png({ compressionLevel: 6 })
+    .toBuffer();
+  return new Uint8Array(png);
+}
@@ -0,0 +1,38 @@
+// lib/palettes.ts
+// Named palettes and palette validation, shared by client and server.
+
+export const MIN_PALETTE = 3;
+export const MAX_PALETTE = 6;
+
+export const PALETTE_PRESETS = {
+  "nordic-living": { label: "Nordic living", colors: ["#2F3E46", "#84A98C", "#CAD2C5", "#D4A373", "#F7F4EF"] },
+  sunset: { label: "Sunset", colors: ["#E63946", "#F4A261", "#E9C46A", "#264653", "#FFF8F0"] },
+  ocean: { label: "Ocean", colors: ["#03045E", "#0077B6", "#00B4D8", "#90E0EF", "#F1FAFF"] },
+  forest: { label: "Forest", colors: ["#283618", "#606C38", "#DDA15E", "#BC6C25", "#FEFAE0"] },
+  candy: { label: "Candy", colors: ["#FF70A6", "#FF9770", "#FFD670", "#70D6FF", "#FFFFFF"] },
+  monochrome: { label: "Monochrome", colors: ["#111111", "#6B6B6B", "#F5F5F5"] },
+} as const;
+
+export type PalettePresetId = keyof typeof PALETTE_PRESETS;
+
+export function isPalettePresetId(v: string): v is PalettePresetId {
+  return Object.prototype.hasOwnProperty.call(PALETTE_PRESETS, v);
+}
+
+const HEX = /^#[0-9a-f]{6}$/i;
+
+export function isHexColor(v: string): boolean {
+  return HEX.test(v);
+}
+
+// Parse "#aabbcc,#112233,…" into upper-case hex colours.
+// Returns null when the list is malformed or has the wrong length.
+export function parsePalette(raw: string): string[] | null {
+  const colors = raw
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+  if (colors.length < MIN_PALETTE || colors.length > MAX_PALETTE) return null;
+  if (!colors.every(isHexColor)) return null;
+  return colors.map((c) => c.toUpperCase());
+}
@@ -0,0 +1,17 @@
+// lib/paper.ts
+// Paper formats shared by the export route and the client export controls.
+
+export const PAPER_FORMATS = {
+  A4: { label: "A4 (21×29.7 cm)", widthMm: 210, heightMm: 297 },
+  A3: { label: "A3 (29.7×42 cm)", widthMm: 297, heightMm: 420 },
+  "30x40": { label: "30×40 cm", widthMm: 300, heightMm: 400 },
+  "50x70": { label: "50×70 cm", widthMm: 500, heightMm: 700 },
+} as const;
+
+export type PaperFormat = keyof typeof PAPER_FORMATS;
+export type Orientation = "portrait" | "landscape";
+export type ExportOutput = "png" | "pdf";
+
+export function isPaperFormat(v: string): v is PaperFormat {
+  return Object.prototype.hasOwnProperty.call(PAPER_FORMATS, v);
+}
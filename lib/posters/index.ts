@@ -0,0 +1,57 @@
+// lib/posters/index.ts
+
+import { createMemoryPosterRepository } from "./memory";
+import { createSqlitePosterRepository } from "./sqlite";
+import { PosterRecord, PosterRepository } from "./types";
+
+export * from "./types";
+export { createMemoryPosterRepository, createSqlitePosterRepository };
+
+// Keep one repository per process, surviving dev-server module reloads.
+const globalForPosters = globalThis as unknown as { __posterRepository?: PosterRepository };
+
+// The record if `ownerId` (the caller's session, null without one) owns it.
+// Anyone else gets null, as if it didn't exist.
+export async function getOwnedRecord(
+  repository: PosterRepository,
+  id: string,
+  ownerId: string | null
+): Promise<PosterRecord | null> {
+  const record = await repository.get(id);
+  return record && ownerId && record.ownerId === ownerId ? record : null;
+}
+
+// The caller's record holding the generated poster or artwork stored at
+// `key`. Only `posters/` keys qualify: uploaded originals and other sessions'
+// posters get null, as if they didn't exist.
+export async function getOwnedPosterRecord(
+  repository: PosterRepository,
+  key: string,
+  ownerId: string | null
+): Promise<PosterRecord | null> {
+  if (!ownerId || !key.startsWith("posters/")) return null;
+  return repository.findByKey(ownerId, key);
+}
+
+// Pick the repository from POSTER_REPOSITORY ("memory" default, or
+// "sqlite"). Memory keeps nothing across restarts or between instances but
+// runs anywhere; SQLite needs a writable disk that outlives the server, so
+// not a serverless host. Its file lives at POSTER_DB_PATH (default
+// .data/posters.db).
+export function getPosterRepository(): PosterRepository {
+  if (globalForPosters.__posterRepository) return globalForPosters.__posterRepository;
+  const name = process.env.POSTER_REPOSITORY || "memory";
+  switch (name) {
+    case "sqlite":
+      globalForPosters.__posterRepository = createSqlitePosterRepository(
+        process.env.POSTER_DB_PATH || ".data/posters.db"
+      );
+      break;
+    case "memory":
+      globalForPosters.__posterRepository = createMemoryPosterRepository();
+      break;
+    default:
+      throw new Error(`Unknown POSTER_REPOSITORY "${name}" (expected "sqlite" or "memory")`);
+  }
+  return globalForPosters.__posterRepository;
+}
@@ -0,0 +1,35 @@
+// lib/posters/memory.ts
+
+import { DEFAULT_PAGE_SIZE, PosterRecord, PosterRepository } from "./types";
+
+// Process-local repository; records are lost on restart.
+export function createMemoryPosterRepository(): PosterRepository {
+  const records = new Map<string, PosterRecord>();
+  const clone = (r: PosterRecord): PosterRecord => structuredClone(r);
+
+  return {
+    name: "memory",
+    async save(record) {
+      records.set(record.id, clone(record));
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record ? clone(record) : null;
+    },
+    async list({ ownerId, limit = DEFAULT_PAGE_SIZE, offset = 0, childId }) {
+      const all = [...records.values()]
+        .filter((r) => r.ownerId === ownerId && (!childId || r.childId === childId))
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return { records: all.slice(offset, offset + limit).map(clone), total: all.length };
+    },
+    async findByKey(ownerId, key) {
+      const record = [...records.values()].find(
+        (r) => r.ownerId === ownerId && r.posters.some((p) => p.key === key || p.artKey === key)
+      );
+      return record ? clone(record) : null;
+    },
+    async delete(id) {
+      return records.delete(id);
+    },
+  };
+}
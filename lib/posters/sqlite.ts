@@ -0,0 +1,118 @@
+// lib/posters/sqlite.ts
+
+import { openDatabase } from "../sqlite";
+import { DEFAULT_PAGE_SIZE, PosterRecord, PosterRepository } from "./types";
+
+type Row = {
+  id: string;
+  owner_id: string | null;
+  created_at: number;
+  updated_at: number;
+  original_key: string;
+  child_id: string | null;
+  collage: string | null;
+  params: string;
+  prompt: string;
+  posters: string;
+};
+
+// Single-file repository for local use. Parameters and results are stored
+// as JSON columns; the schema is created on first use.
+export function createSqlitePosterRepository(file: string): PosterRepository {
+  const db = openDatabase(file);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS posters (
+      id TEXT PRIMARY KEY,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      original_key TEXT NOT NULL,
+      params TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      posters TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS posters_created_at ON posters (created_at DESC);
+  `);
+  // Added after the first release; older databases are migrated in place.
+  // Records from before owners were kept belong to no session.
+  const columns = db.prepare<[], { name: string }>("PRAGMA table_info(posters)").all();
+  for (const column of ["child_id", "collage", "owner_id"]) {
+    if (!columns.some((c) => c.name === column)) db.exec(`ALTER TABLE posters ADD COLUMN ${column} TEXT`);
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS posters_child_id ON posters (child_id, created_at DESC)");
+  db.exec("CREATE INDEX IF NOT EXISTS posters_owner_id ON posters (owner_id, created_at DESC)");
+
+  const upsert = db.prepare(`
+    INSERT INTO posters (id, owner_id, created_at, updated_at, original_key, child_id, collage, params, prompt, posters)
+    VALUES (@id, @owner_id, @created_at, @updated_at, @original_key, @child_id, @collage, @params, @prompt, @posters)
+    ON CONFLICT (id) DO UPDATE SET
+      updated_at = excluded.updated_at,
+      original_key = excluded.original_key,
+      child_id = excluded.child_id,
+      collage = excluded.collage,
+      params = excluded.params,
+      prompt = excluded.prompt,
+      posters = excluded.posters
+  `);
+  const selectOne = db.prepare<[string], Row>("SELECT * FROM posters WHERE id = ?");
+  // A NULL `child` matches every record of the owner.
+  type Filter = { owner: string; child: string | null };
+  const where = "owner_id = @owner AND (@child IS NULL OR child_id = @child)";
+  const selectPage = db.prepare<[Filter & { limit: number; offset: number }], Row>(
+    `SELECT * FROM posters WHERE ${where} ORDER BY created_at DESC LIMIT @limit OFFSET @offset`
+  );
+  const count = db.prepare<[Filter], { n: number }>(`SELECT COUNT(*) AS n FROM posters WHERE ${where}`);
+  const selectByKey = db.prepare<[{ owner: string; key: string }], Row>(`
+    SELECT posters.* FROM posters, json_each(posters.posters) AS p
+    WHERE owner_id = @owner AND @key IN (p.value ->> '$.key', p.value ->> '$.artKey')
+    LIMIT 1
+  `);
+  const remove = db.prepare<[string]>("DELETE FROM posters WHERE id = ?");
+
+  function fromRow(row: Row): PosterRecord {
+    return {
+      id: row.id,
+      ownerId: row.owner_id ?? "",
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      originalKey: row.original_key,
+      childId: row.child_id ?? undefined,
+      collage: row.collage ? JSON.parse(row.collage) : undefined,
+      params: JSON.parse(row.params),
+      prompt: row.prompt,
+      posters: JSON.parse(row.posters),
+    };
+  }
+
+  return {
+    name: "sqlite",
+    async save(record) {
+      upsert.run({
+        id: record.id,
+        owner_id: record.ownerId,
+        created_at: record.createdAt,
+        updated_at: record.updatedAt,
+        original_key: record.originalKey,
+        child_id: record.childId ?? null,
+        collage: record.collage ? JSON.stringify(record.collage) : null,
+        params: JSON.stringify(record.params),
+        prompt: record.prompt,
+        posters: JSON.stringify(record.posters),
+      });
+    },
+    async get(id) {
+      const row = selectOne.get(id);
+      return row ? fromRow(row) : null;
+    },
+    async list({ ownerId, limit = DEFAULT_PAGE_SIZE, offset = 0, childId }) {
+      const filter = { owner: ownerId, child: childId ?? null };
+      return { records: selectPage.all({ ...filter, limit, offset }).map(fromRow), total: count.get(filter)!.n };
+    },
+    async findByKey(ownerId, key) {
+      const row = selectByKey.get({ owner: ownerId, key });
+      return row ? fromRow(row) : null;
+    },
+    async delete(id) {
+      return remove.run(id).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,46 @@
+// lib/posters/types.ts
+
+import type { CollageLayout, CollageOutput } from "../collage-layouts";
+import type { GenerateParams, PosterResult } from "../generate";
+
+// Results are kept by storage key only; URLs are resolved when read because
+// signed ones expire.
+export type StoredPoster = Omit<PosterResult, "posterUrl" | "artUrl">;
+
+// A multi-drawing generation: its layout and every uploaded drawing in order.
+export type CollageInfo = { layout: CollageLayout; output: CollageOutput; originalKeys: string[] };
+
+// One generation: the uploaded drawing, everything used to make it, and its results.
+// For collages `originalKey` is the first drawing and `collage` lists them all.
+// `ownerId` is the anonymous session that made it, the only one that can see it.
+export type PosterRecord = {
+  id: string;
+  ownerId: string;
+  createdAt: number;
+  updatedAt: number;
+  originalKey: string;
+  collage?: CollageInfo;
+  // The child profile the drawing belongs to, if any.
+  childId?: string;
+  params: GenerateParams;
+  prompt: string;
+  posters: StoredPoster[];
+};
+
+// Lists one owner's records; `childId` limits them to one child's posters.
+export type ListOptions = { ownerId: string; limit?: number; offset?: number; childId?: string };
+export type PosterPage = { records: PosterRecord[]; total: number };
+
+// Persistence for generation records. `list` returns newest first;
+// `findByKey` returns the owner's record holding a poster or artwork key.
+export interface PosterRepository {
+  readonly name: string;
+  save(record: PosterRecord): Promise<void>;
+  get(id: string): Promise<PosterRecord | null>;
+  list(opts: ListOptions): Promise<PosterPage>;
+  findByKey(ownerId: string, key: string): Promise<PosterRecord | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
@@ -0,0 +1,101 @@
+// lib/print.ts
+
+import sharp from "sharp";
+import { PDFDocument } from "pdf-lib";
+import { ExportOutput, Orientation, PAPER_FORMATS, PaperFormat } from "./paper";
+
+export * from "./paper";
+
+export type PrintOptions = {
+  format: PaperFormat;
+  orientation: Orientation;
+  // White passe-partout around the artwork, inside the trim edge.
+  marginMm: number;
+  // Extra area outside the trim edge that the print shop cuts off.
+  bleedMm: number;
+  // "contain" keeps the whole poster visible; "cover" fills the window and crops.
+  fit: "contain" | "cover";
+  dpi: number;
+  output: ExportOutput;
+  background: string;
+};
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  format: "A3",
+  orientation: "portrait",
+  marginMm: 0,
+  bleedMm: 3,
+  fit: "cover",
+  dpi: 300,
+  output: "pdf",
+  background: "#ffffff",
+};
+
+const MM_PER_INCH = 25.4;
+const PT_PER_INCH = 72;
+
+// Physical sheet size in mm, including bleed, for the chosen orientation.
+export function sheetSizeMm({ format, orientation, bleedMm }: PrintOptions): { widthMm: number; heightMm: number } {
+  const { widthMm, heightMm } = PAPER_FORMATS[format];
+  const [w, h] = orientation === "landscape" ? [heightMm, widthMm] : [widthMm, heightMm];
+  return { widthMm: w + 2 * bleedMm, heightMm: h + 2 * bleedMm };
+}
+
+function mmToPx(mm: number, dpi: number): number {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+}
+
+// Lay the poster out on a sheet at full print resolution.
+// Without a margin the artwork runs into the bleed; with one, the bleed and
+// passe-partout are filled with the background colour.
+export async function renderPrintRaster(poster: Uint8Array, opts: PrintOptions): Promise<sharp.Sharp> {
+  const { widthMm, heightMm } = sheetSizeMm(opts);
+  const width = mmToPx(widthMm, opts.dpi);
+  const height = mmToPx(heightMm, opts.dpi);
+  const inset = opts.marginMm > 0 ? mmToPx(opts.bleedMm + opts.marginMm, opts.dpi) : 0;
+  const winW = width - 2 * inset;
+  const winH = height - 2 * inset;
+  if (winW <= 0 || winH <= 0) throw new RangeError("Margin is larger than the paper");
+
+  const art = await sharp(poster)
+    .rotate()
+    .resize(winW, winH, { fit: opts.fit, background: opts.background, kernel: "lanczos3" })
+    .flatten({ background: opts.background })
+    .toBuffer();
+
+  return sharp({ create: { width, height, channels: 3, background: opts.background } })
+    .composite([{ input: art, left: inset, top: inset }])
+    .removeAlpha()
+    .withMetadata({ density: opts.dpi });
+}
+
+export type ExportFile = { bytes: Uint8Array; contentType: string; extension: ExportOutput };
+
+export async function exportForPrint(poster: Uint8Array, opts: PrintOptions): Promise<ExportFile> {
+  const raster = await renderPrintRaster(poster, opts);
+
+  if (opts.output === "png") {
+    const png = await raster.png({ compressionLevel: 6 }).toBuffer();
+    return { bytes: new Uint8Array(png), contentType: "image/png", extension: "png" };
+  }
+
+  // PDF: one page at the exact physical size, with trim and bleed boxes set
+  // so print shops know where to cut.
+  const jpg = await raster.jpeg({ quality: 95, chromaSubsampling: "4:4:4" }).toBuffer();
+  const { widthMm, heightMm } = sheetSizeMm(opts);
+  const toPt = (mm: number) => (mm / MM_PER_INCH) * PT_PER_INCH;
+  const pageW = toPt(widthMm);
+  const pageH = toPt(heightMm);
+  const bleed = toPt(opts.bleedMm);
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle("Kids poster");
+  pdf.setCreator("kids-poster");
+  const page = pdf.addPage([pageW, pageH]);
+  const image = await pdf.embedJpg(jpg);
+  page.drawImage(image, { x: 0, y: 0, width: pageW, height: pageH });
+  page.setBleedBox(0, 0, pageW, pageH);
+  page.setTrimBox(bleed, bleed, pageW - 2 * bleed, pageH - 2 * bleed);
+
+  return { bytes: await pdf.save(), contentType: "application/pdf", extension: "pdf" };
+}
@@ -0,0 +1,28 @@
+// lib/providers/index.ts
+
+import { createMockProvider } from "./mock";
+import { createOpenAIProvider } from "./openai";
+import { ImageProvider } from "./types";
+
+export * from "./types";
+export { createMockProvider, createOpenAIProvider };
+export { editWithRetry, providerMaxRetries, SQUARE_RESERVE_MS } from "./retry";
+export type { RetryOptions } from "./retry";
+
+export type ProviderName = "openai" | "mock";
+
+// Pick the image provider from IMAGE_PROVIDER (default "openai").
+// Throws with a readable message when the chosen provider is misconfigured.
+export function getImageProvider(name = process.env.IMAGE_PROVIDER || "openai"): ImageProvider {
+  switch (name) {
+    case "mock":
+      return createMockProvider();
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new Error("Missing OPENAI_API_KEY in .env");
+      return createOpenAIProvider(apiKey, process.env.OPENAI_IMAGE_MODEL || "gpt-image-1");
+    }
+    default:
+      throw new Error(`Unknown IMAGE_PROVIDER "${name}" (expected "openai" or "mock")`);
+  }
+}
@@ -0,0 +1,41 @@
+// lib/providers/mock.ts
+
+import sharp from "sharp";
+import { ImageProvider, parseSize } from "./types";
+
+// Deterministic offline provider: fits the upload onto the requested canvas and
+// posterizes it into flat colour blocks. Same input + size + variant => same
+// bytes; each variant rotates the hue so variations are distinguishable, and
+// masked edits shift it further so the repainted area visibly changes.
+export function createMockProvider(levels = 4): ImageProvider {
+  const step = 255 / (levels - 1);
+
+  return {
+    name: "mock",
+    async editImage({ image, size, variant = 0, mask, signal }) {
+      signal?.throwIfAborted();
+      const { width, height } = parseSize(size);
+      const input = Buffer.from(await image.arrayBuffer());
+
+      const { data, info } = await sharp(input)
+        .rotate()
+        .resize(width, height, { fit: "contain", background: "#ffffff" })
+        .flatten({ background: "#ffffff" })
+        .modulate({ hue: (variant * 47 + (mask ? 120 : 0)) % 360 })
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.round(Math.round(data[i] / step) * step);
+      }
+
+      const png = await sharp(data, {
+        raw: { width: info.width, height: info.height, channels: info.channels },
+      })
+        .png()
+        .toBuffer();
+      return new Uint8Array(png);
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// lib/providers/openai.ts
+
+import { ImageProvider, ProviderError } from "./types";
+
+function base64ToUint8Array(b64: string): Uint8Array {
+  const bin = Buffer.from(b64, "base64");
+  return new Uint8Array(bin);
+}
+
+export function createOpenAIProvider(apiKey: string, model = "gpt-image-1"): ImageProvider {
+  return {
+    name: "openai",
+    async editImage({ image, prompt, size, mask, signal }) {
+      const fd = new FormData();
+      fd.append("image", image, image.type === "image/png" ? "input.png" : "input.jpg");
+      if (mask) fd.append("mask", mask, "mask.png");
+      fd.append("model", model);
+      fd.append("prompt", prompt);
+      fd.append("size", size);
+
+      let resp: Response;
+      try {
+        resp = await fetch("https://api.openai.com/v1/images/edits", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${apiKey}` },
+          body: fd,
+          signal,
+        });
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw new ProviderError(`Could not reach OpenAI: ${(err as Error).message}`, 503);
+      }
+
+      if (!resp.ok) {
+        // The body can echo the prompt and account details: log it, don't pass it on.
+        const txt = await resp.text();
+        console.error(`OpenAI error ${resp.status}:`, txt.slice(0, 2000));
+        let upstreamCode: string | undefined;
+        try {
+          upstreamCode = (JSON.parse(txt) as { error?: { code?: string | null } }).error?.code ?? undefined;
+        } catch {}
+        const retryAfter = Number(resp.headers.get("retry-after"));
+        throw new ProviderError(`OpenAI error ${resp.status}`, resp.status, {
+          upstreamCode,
+          retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+        });
+      }
+
+      const json = (await resp.json()) as { data?: Array<{ b64_json?: string }> };
+      const b64 = json?.data?.[0]?.b64_json;
+      if (!b64) throw new ProviderError("OpenAI returned no image");
+
+      return base64ToUint8Array(b64);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// lib/providers/retry.ts
+
+import { EditImageRequest, ImageProvider, ImageSize, ProviderError } from "./types";
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+// Don't start an attempt with less time than this left.
+const MIN_ATTEMPT_MS = 10_000;
+// About what a square image takes. A portrait attempt is cut off this long
+// before the deadline, so a square one still fits after it.
+export const SQUARE_RESERVE_MS = 20_000;
+
+// PROVIDER_MAX_RETRIES: extra attempts after a transient failure (default 2, max 5).
+export function providerMaxRetries(): number {
+  const n = Number(process.env.PROVIDER_MAX_RETRIES);
+  return Number.isInteger(n) && n >= 0 ? Math.min(n, 5) : 2;
+}
+
+export type RetryOptions = {
+  // Epoch ms by which the image has to be done.
+  deadline: number;
+  maxRetries?: number;
+  // Size to switch to when time runs short; null keeps the requested size.
+  fallbackSize?: ImageSize | null;
+  onRetry?: () => void;
+};
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+// Exponential backoff with jitter, or the provider's Retry-After if longer.
+function backoff(attempt: number, err: ProviderError): number {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.max(err.options.retryAfterMs ?? 0, Math.round(exp * (0.5 + Math.random() / 2)));
+}
+
+// Call the provider, retrying transient failures within the deadline. When
+// too little time is left for the requested size (or an attempt at it runs
+// into the square reserve) it switches to `fallbackSize` once. Returns the
+// image and the size it was made at.
+export async function editWithRetry(
+  provider: ImageProvider,
+  req: EditImageRequest,
+  { deadline, maxRetries = providerMaxRetries(), fallbackSize = "1024x1024", onRetry = () => {} }: RetryOptions
+): Promise<{ bytes: Uint8Array; size: ImageSize }> {
+  let size = req.size;
+  let retries = 0;
+  for (;;) {
+    const canFallBack = !!fallbackSize && size !== fallbackSize;
+    if (canFallBack && deadline - Date.now() < SQUARE_RESERVE_MS + MIN_ATTEMPT_MS) size = fallbackSize!;
+    const cutoff =
+      fallbackSize && size !== fallbackSize ? AbortSignal.timeout(deadline - Date.now() - SQUARE_RESERVE_MS) : null;
+    const signals = [req.signal, cutoff].filter((s): s is AbortSignal => !!s);
+    try {
+      const bytes = await provider.editImage({ ...req, size, signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0] });
+      return { bytes, size };
+    } catch (err) {
+      if (req.signal?.aborted) throw err;
+      if (cutoff?.aborted) {
+        // Out of time for this size; the fallback doesn't count as a retry.
+        size = fallbackSize!;
+        onRetry();
+        continue;
+      }
+      const transient = err instanceof ProviderError && err.transient;
+      const delay = transient ? backoff(retries, err) : 0;
+      if (!transient || retries >= maxRetries || Date.now() + delay > deadline - MIN_ATTEMPT_MS) {
+        if (err instanceof ProviderError) err.attempts = retries + 1;
+        throw err;
+      }
+      retries++;
+      onRetry();
+      await sleep(delay, req.signal);
+    }
+  }
+}
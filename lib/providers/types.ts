@@ -0,0 +1,55 @@
+// lib/providers/types.ts
+
+export type ImageSize = "1024x1024" | "1024x1536" | "1536x1024";
+
+export type EditImageRequest = {
+  image: Blob;
+  prompt: string;
+  size: ImageSize;
+  // Index of this variation within one generation (0-based).
+  variant?: number;
+  // PNG the size of `image`; fully transparent pixels mark the area to
+  // repaint (OpenAI's convention). Without a mask the whole image is edited.
+  mask?: Blob;
+  signal?: AbortSignal;
+};
+
+// An image provider turns an input image + prompt into PNG bytes.
+export interface ImageProvider {
+  readonly name: string;
+  editImage(req: EditImageRequest): Promise<Uint8Array>;
+}
+
+export type ProviderErrorOptions = {
+  // The provider's own error code, e.g. OpenAI's "moderation_blocked".
+  upstreamCode?: string;
+  // From the provider's Retry-After header.
+  retryAfterMs?: number;
+};
+
+// Upstream failure (bad status, empty payload, unreachable). `status` is the
+// upstream HTTP status (502 for a bad payload, 503 when unreachable). The
+// message is for the server log; users get an error envelope instead.
+export class ProviderError extends Error {
+  // Provider calls made before giving up, set by editWithRetry.
+  attempts = 1;
+
+  constructor(
+    message: string,
+    readonly status = 502,
+    readonly options: ProviderErrorOptions = {}
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  // Worth another try: timeouts, conflicts, rate limits and server errors.
+  get transient(): boolean {
+    return [408, 409, 425, 429].includes(this.status) || this.status >= 500;
+  }
+}
+
+export function parseSize(size: ImageSize): { width: number; height: number } {
+  const [width, height] = size.split("x").map(Number);
+  return { width, height };
+}
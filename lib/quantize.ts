@@ -0,0 +1,158 @@
+// lib/quantize.ts
+
+import sharp from "sharp";
+
+type RGB = [number, number, number];
+type Lab = [number, number, number];
+
+function hexToRgb(hex: string): RGB {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [n >> 16, (n >> 8) & 255, n & 255];
+}
+
+function rgbToHex([r, g, b]: RGB): string {
+  return "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("").toUpperCase();
+}
+
+// sRGB → CIE Lab (D65), so "nearest colour" matches what people perceive.
+function rgbToLab([r, g, b]: RGB): Lab {
+  const lin = (v: number) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const [R, G, B] = [lin(r), lin(g), lin(b)];
+  const x = (R * 0.4124 + G * 0.3576 + B * 0.1805) / 0.95047;
+  const y = R * 0.2126 + G * 0.7152 + B * 0.0722;
+  const z = (R * 0.0193 + G * 0.1192 + B * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function distance(a: Lab, b: Lab): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+// Map every pixel of the poster to its nearest palette colour (no dithering),
+// so the result uses exactly the given colours.
+export async function quantizeToPalette(image: Uint8Array, palette: string[]): Promise<Uint8Array> {
+  const targets = palette.map(hexToRgb);
+  const targetsLab = targets.map(rgbToLab);
+  const { data, info } = await sharp(image)
+    .flatten({ background: "#ffffff" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const memo = new Map<number, number>();
+  for (let i = 0; i < data.length; i += 3) {
+    const packed = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let best = memo.get(packed);
+    if (best === undefined) {
+      const lab = rgbToLab([data[i], data[i + 1], data[i + 2]]);
+      best = 0;
+      for (let t = 1; t < targetsLab.length; t++) {
+        if (distance(lab, targetsLab[t]) < distance(lab, targetsLab[best])) best = t;
+      }
+      memo.set(packed, best);
+    }
+    [data[i], data[i + 1], data[i + 2]] = targets[best];
+  }
+
+  const png = await sharp(data, { raw: { width: info.width, height: info.height, channels: 3 } })
+    .png()
+    .toBuffer();
+  return new Uint8Array(png);
+}
+
+// Extract `count` distinct dominant colours from a drawing (median cut +
+// k-means). Near-white paper is ignored unless the drawing has almost nothing
+// else; flat drawings with fewer colours are padded with shades of theirs.
+export async function extractPalette(image: Uint8Array, count = 5): Promise<string[]> {
+  const { data } = await sharp(image)
+    .rotate()
+    .resize(96, 96, { fit: "inside" })
+    .flatten({ background: "#ffffff" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const all: RGB[] = [];
+  for (let i = 0; i < data.length; i += 3) all.push([data[i], data[i + 1], data[i + 2]]);
+  const inked = all.filter(([r, g, b]) => Math.min(r, g, b) < 225);
+  const pixels = inked.length > all.length * 0.02 ? inked : all;
+
+  let boxes: RGB[][] = [pixels];
+  while (boxes.length < count) {
+    // Split the box with the widest channel range at its median.
+    let pick = -1;
+    let pickRange = 0;
+    let pickChannel = 0;
+    boxes.forEach((box, bi) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        const values = box.map((p) => p[c]);
+        const range = Math.max(...values) - Math.min(...values);
+        if (range > pickRange) [pick, pickRange, pickChannel] = [bi, range, c];
+      }
+    });
+    if (pick < 0) break;
+    const sorted = [...boxes[pick]].sort((a, b) => a[pickChannel] - b[pickChannel]);
+    const mid = Math.floor(sorted.length / 2);
+    boxes = [...boxes.slice(0, pick), sorted.slice(0, mid), sorted.slice(mid), ...boxes.slice(pick + 1)];
+  }
+
+  // Refine the median-cut centres with a few k-means passes so small but
+  // distinct colours are not averaged into their neighbours.
+  let centres = boxes.map(mean);
+  let clusters: RGB[][] = boxes;
+  for (let iter = 0; iter < 6; iter++) {
+    clusters = centres.map(() => []);
+    for (const p of pixels) {
+      let best = 0;
+      for (let c = 1; c < centres.length; c++) {
+        if (rgbDistance(p, centres[c]) < rgbDistance(p, centres[best])) best = c;
+      }
+      clusters[best].push(p);
+    }
+    centres = clusters.map((cluster, c) => (cluster.length ? mean(cluster) : centres[c]));
+  }
+
+  // Largest clusters first, so the first colour (the accent) is the most present.
+  const found = centres
+    .map((centre, c) => ({ centre, size: clusters[c].length }))
+    .sort((a, b) => b.size - a.size)
+    .map(({ centre }) => centre);
+  return padPalette(found, count);
+}
+
+// Deduplicate and, when fewer than `count` colours remain, add lighter and
+// darker shades of them (nearest shades first) until there are enough.
+function padPalette(colours: RGB[], count: number): string[] {
+  const palette = [...new Set(colours.map(rgbToHex))];
+  const shades: RGB[] = [];
+  for (let step = 1; step < 7; step++) {
+    for (const colour of palette.map(hexToRgb)) {
+      shades.push(mix(colour, [255, 255, 255], step * 0.13), mix(colour, [0, 0, 0], step * 0.13));
+    }
+  }
+  for (const shade of shades) {
+    if (palette.length >= count) break;
+    const hex = rgbToHex(shade);
+    if (!palette.includes(hex)) palette.push(hex);
+  }
+  return palette.slice(0, count);
+}
+
+function mix(a: RGB, b: RGB, amount: number): RGB {
+  return a.map((v, i) => Math.round(v + (b[i] - v) * amount)) as RGB;
+}
+
+function mean(pixels: RGB[]): RGB {
+  const sum = pixels.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return sum.map((v) => Math.round(v / pixels.length)) as RGB;
+}
+
+function rgbDistance(a: RGB, b: RGB): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
@@ -0,0 +1,51 @@
+// lib/ratelimit/client.ts
+// Reading the quota headers in the browser. Safe to import from client
+// components.
+
+import { QuotaStatus } from "./types";
+
+// A generation refused with 429: `quota_exceeded` for the day (`remaining`
+// posters are left, too few for the request) or `rate_limited` for
+// `retryAfter` seconds. `message` is the server's English text.
+export class QuotaError extends Error {
+  constructor(
+    message: string,
+    readonly code: "quota_exceeded" | "rate_limited",
+    readonly retryAfter: number | null,
+    readonly remaining: number | null
+  ) {
+    super(message);
+    this.name = "QuotaError";
+  }
+}
+
+// The daily quota from a response's RateLimit-* headers, or null when the
+// response has none (e.g. a cached result or no quota configured).
+export function quotaFromHeaders(headers: Headers): QuotaStatus | null {
+  const limit = headers.get("RateLimit-Limit");
+  const remaining = headers.get("RateLimit-Remaining");
+  const reset = headers.get("RateLimit-Reset");
+  if (limit === null || remaining === null) return null;
+  const perMinute = /(\d+);w=60\b/.exec(headers.get("RateLimit-Policy") || "");
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: reset === null ? null : Date.now() + Number(reset) * 1000,
+    perMinute: perMinute ? Number(perMinute[1]) : null,
+  };
+}
+
+// Throw a QuotaError for a 429 response.
+export async function throwIfLimited(res: Response): Promise<void> {
+  if (res.status !== 429) return;
+  let body: { error?: string; code?: string } = {};
+  try { body = (await res.clone().json()) as typeof body; } catch {}
+  const retryAfter = Number(res.headers.get("Retry-After"));
+  const remaining = res.headers.get("RateLimit-Remaining");
+  throw new QuotaError(
+    body.error || "Too many posters right now. Try again later.",
+    body.code === "quota_exceeded" ? "quota_exceeded" : "rate_limited",
+    retryAfter > 0 ? retryAfter : null,
+    remaining === null ? null : Number(remaining)
+  );
+}
@@ -0,0 +1,332 @@
+// lib/ratelimit/index.ts
+// Per-client limits on generations, so the open endpoints can't spend the
+// image provider budget without bound. A client is its anonymous session
+// cookie, or its IP address until it has one.
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { ErrorEnvelope } from "../errors";
+import { requireSecret } from "../secrets";
+import { createMemoryRateLimitStore } from "./memory";
+import { createRedisRateLimitStore, createRestRedisClient } from "./redis";
+import { Counter, QuotaDecision, QuotaLimits, QuotaStatus, RateLimitStore } from "./types";
+
+export * from "./types";
+export { QuotaError, quotaFromHeaders, throwIfLimited } from "./client";
+export { createMemoryRateLimitStore, createRedisRateLimitStore, createRestRedisClient };
+export type { RedisClient } from "./redis";
+
+const MINUTE_MS = 60 * 1000;
+export const SESSION_COOKIE = "kp_session";
+const SESSION_MAX_AGE = 365 * 24 * 60 * 60;
+
+function envCount(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(n) && n >= 0 ? n : fallback;
+}
+
+// RATE_LIMIT_PER_MINUTE generation requests (default 5) and
+// GENERATION_DAILY_QUOTA posters (default 30) per client; 0 turns a limit off.
+export function quotaLimits(): QuotaLimits {
+  return {
+    perMinute: envCount("RATE_LIMIT_PER_MINUTE", 5),
+    perDay: envCount("GENERATION_DAILY_QUOTA", 30),
+  };
+}
+
+// Everyone behind one IP address shares RATE_LIMIT_IP_FACTOR (default 5)
+// times the client limits, so new cookies don't buy new quota.
+function ipFactor(): number {
+  return Math.max(1, envCount("RATE_LIMIT_IP_FACTOR", 5));
+}
+
+const globalForRateLimit = globalThis as unknown as { __rateLimitStore?: RateLimitStore };
+
+// RATE_LIMIT_STORE picks "memory" (default, one server instance) or "redis"
+// (REDIS_REST_URL and REDIS_REST_TOKEN, shared by every instance).
+export function getRateLimitStore(): RateLimitStore {
+  if (globalForRateLimit.__rateLimitStore) return globalForRateLimit.__rateLimitStore;
+  const name = process.env.RATE_LIMIT_STORE || "memory";
+  switch (name) {
+    case "memory":
+      globalForRateLimit.__rateLimitStore = createMemoryRateLimitStore();
+      break;
+    case "redis": {
+      const url = process.env.REDIS_REST_URL;
+      const token = process.env.REDIS_REST_TOKEN;
+      if (!url || !token) throw new Error("Missing REDIS_REST_URL or REDIS_REST_TOKEN");
+      globalForRateLimit.__rateLimitStore = createRedisRateLimitStore(createRestRedisClient(url, token));
+      break;
+    }
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}" (expected "memory" or "redis")`);
+  }
+  return globalForRateLimit.__rateLimitStore;
+}
+
+// The address of a client whose IP address isn't known.
+const UNKNOWN_IP = "unknown";
+
+export type QuotaClient = {
+  // UNKNOWN_IP unless a trusted proxy reported it.
+  ip: string;
+  // The verified session id, or null before the client has a cookie.
+  session: string | null;
+  // Cookie value to send back when the request came without a valid one.
+  newSession: string | null;
+};
+
+function sign(session: string): string {
+  const secret = requireSecret("RATE_LIMIT_SECRET", "dev-only-rate-limit-secret");
+  return createHmac("sha256", secret).update(session).digest("base64url");
+}
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.get("cookie") || "").split(";")) {
+    const [k, ...v] = part.trim().split("=");
+    if (k === name) return decodeURIComponent(v.join("="));
+  }
+  return null;
+}
+
+// The session id in a signed cookie value, or null when it is missing or
+// the signature doesn't match.
+export function verifySession(cookie: string | null | undefined): string | null {
+  const [session, sig] = (cookie || "").split(".");
+  if (!session || !sig) return null;
+  const expected = Buffer.from(sign(session));
+  const given = Buffer.from(sig);
+  return expected.length === given.length && timingSafeEqual(expected, given) ? session : null;
+}
+
+// Anyone can send X-Forwarded-For, so it only counts behind
+// TRUSTED_PROXY_COUNT proxies that each append the address they saw: the
+// client is that many entries from the right. CLIENT_IP_HEADER instead names
+// a header the proxy sets to the client's address (e.g. x-real-ip). Without
+// either the address is unknown.
+function clientIp(req: Request): string {
+  const header = process.env.CLIENT_IP_HEADER;
+  if (header) return req.headers.get(header)?.trim() || UNKNOWN_IP;
+  const proxies = envCount("TRUSTED_PROXY_COUNT", 0);
+  if (!proxies) return UNKNOWN_IP;
+  const chain = (req.headers.get("x-forwarded-for") || "").split(",").map((ip) => ip.trim());
+  return (chain.length >= proxies && chain[chain.length - proxies]) || UNKNOWN_IP;
+}
+
+// Without a trusted client address a client that drops its cookie starts
+// over with every request, so a production server with limits refuses to
+// start unless TRUSTED_PROXY_COUNT or CLIENT_IP_HEADER is set.
+export function requireClientAddress(): void {
+  if (process.env.NODE_ENV !== "production") return;
+  const { perMinute, perDay } = quotaLimits();
+  if (!perMinute && !perDay) return;
+  if (process.env.CLIENT_IP_HEADER || envCount("TRUSTED_PROXY_COUNT", 0) > 0) return;
+  throw new Error("TRUSTED_PROXY_COUNT or CLIENT_IP_HEADER must be set in production to rate-limit clients without a session");
+}
+
+export function identifyClient(req: Request): QuotaClient {
+  const ip = clientIp(req);
+  const session = verifySession(readCookie(req, SESSION_COOKIE));
+  if (session) return { ip, session, newSession: null };
+  const fresh = randomUUID();
+  return { ip, session: null, newSession: `${fresh}.${sign(fresh)}` };
+}
+
+// The client's session id; for a new client, the one `applySession` hands out.
+export function sessionId(client: QuotaClient): string {
+  return client.session ?? client.newSession!.split(".")[0];
+}
+
+// Send the session cookie to a client that came without a valid one.
+export function applySession<R extends Response>(res: R, client: QuotaClient): R {
+  if (client.newSession) {
+    const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+    res.headers.append(
+      "Set-Cookie",
+      `${SESSION_COOKIE}=${client.newSession}; Path=/; Max-Age=${SESSION_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`
+    );
+  }
+  return res;
+}
+
+type Bucket = { key: string; limit: number; ttlMs: number; kind: "minute" | "day"; shared: boolean };
+
+// Minute windows count requests and start at the first one; days count
+// posters and are UTC days. Without a known IP address there are no shared
+// buckets, as they would be shared by everyone, and a client without a
+// session is charged to the one it is being given. That only happens outside
+// production (see requireClientAddress).
+function buckets(client: QuotaClient, limits: QuotaLimits, now: number): Bucket[] {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const dayMs = Date.UTC(Number(day.slice(0, 4)), Number(day.slice(5, 7)) - 1, Number(day.slice(8, 10)) + 1) - now;
+  const owner = client.session || client.ip === UNKNOWN_IP ? `s:${sessionId(client)}` : `a:${client.ip}`;
+  const factor = ipFactor();
+  // Days first: a client out of quota should hear "tomorrow", not "slow down".
+  const all: Bucket[] = [
+    { key: `day:${owner}:${day}`, limit: limits.perDay, ttlMs: dayMs, kind: "day", shared: false },
+    { key: `day:ip:${client.ip}:${day}`, limit: limits.perDay * factor, ttlMs: dayMs, kind: "day", shared: true },
+    { key: `min:${owner}`, limit: limits.perMinute, ttlMs: MINUTE_MS, kind: "minute", shared: false },
+    { key: `min:ip:${client.ip}`, limit: limits.perMinute * factor, ttlMs: MINUTE_MS, kind: "minute", shared: true },
+  ];
+  return all.filter((b) => b.limit > 0 && !(b.shared && client.ip === UNKNOWN_IP));
+}
+
+// The client's daily quota without charging anything. Reads as no quota
+// when the store is unreachable.
+export async function readQuota(
+  store: RateLimitStore,
+  client: QuotaClient,
+  limits: QuotaLimits = quotaLimits(),
+  now = Date.now()
+): Promise<QuotaStatus> {
+  const perMinute = limits.perMinute || null;
+  const daily = buckets(client, limits, now).find((b) => b.kind === "day" && !b.shared);
+  if (!daily) return { limit: null, remaining: null, resetAt: null, perMinute };
+  let counter: Counter | null;
+  try {
+    counter = await store.get(daily.key);
+  } catch (err) {
+    console.error("Rate limit store failed:", err);
+    return { limit: null, remaining: null, resetAt: null, perMinute: null };
+  }
+  return {
+    limit: daily.limit,
+    remaining: Math.max(0, daily.limit - (counter?.count ?? 0)),
+    resetAt: counter?.resetAt ?? now + daily.ttlMs,
+    perMinute,
+  };
+}
+
+function refusal(bucket: Bucket, counter: Counter, cost: number, now: number): Pick<QuotaDecision, "reason" | "retryAfter" | "message"> {
+  const retryAfter = Math.max(1, Math.ceil((counter.resetAt - now) / 1000));
+  if (bucket.kind === "minute") {
+    return {
+      reason: "rate_limited",
+      retryAfter,
+      message: `Slow down a little: you can make more posters in ${retryAfter} seconds.`,
+    };
+  }
+  const left = Math.max(0, bucket.limit - (counter.count - cost));
+  return {
+    reason: "quota_exceeded",
+    retryAfter,
+    message: bucket.shared
+      ? "Your network has made all its posters for today. Come back tomorrow!"
+      : left > 0
+      ? `That needs ${cost} posters, but only ${left} ${left === 1 ? "is" : "are"} left today.`
+      : `That's all ${bucket.limit} posters for today. Come back tomorrow!`,
+  };
+}
+
+// Charge a request for `cost` posters to the client. Refused requests are
+// not charged. If the store is unreachable the request is let through rather
+// than taking the app down with it.
+export async function consumeQuota(
+  store: RateLimitStore,
+  client: QuotaClient,
+  cost: number,
+  limits: QuotaLimits = quotaLimits(),
+  now = Date.now()
+): Promise<QuotaDecision> {
+  const amount = (bucket: Bucket) => (bucket.kind === "minute" ? 1 : cost);
+  try {
+    const charged: Bucket[] = [];
+    for (const bucket of buckets(client, limits, now)) {
+      const counter = await store.increment(bucket.key, amount(bucket), bucket.ttlMs);
+      charged.push(bucket);
+      if (counter.count > bucket.limit) {
+        await Promise.all(charged.map((b) => store.increment(b.key, -amount(b), b.ttlMs)));
+        return { ...(await readQuota(store, client, limits, now)), allowed: false, ...refusal(bucket, counter, cost, now) };
+      }
+    }
+    return { ...(await readQuota(store, client, limits, now)), allowed: true };
+  } catch (err) {
+    console.error("Rate limit store failed:", err);
+    return { limit: null, remaining: null, resetAt: null, perMinute: null, allowed: true };
+  }
+}
+
+// Charge `cost` more posters to a request that was let through, e.g. a
+// fidelity re-roll. Only the daily quotas count; false when they are used up.
+export async function consumeExtraQuota(
+  store: RateLimitStore,
+  client: QuotaClient,
+  cost: number,
+  limits: QuotaLimits = quotaLimits(),
+  now = Date.now()
+): Promise<boolean> {
+  try {
+    const charged: Bucket[] = [];
+    for (const bucket of buckets(client, limits, now).filter((b) => b.kind === "day")) {
+      const counter = await store.increment(bucket.key, cost, bucket.ttlMs);
+      charged.push(bucket);
+      if (counter.count > bucket.limit) {
+        await Promise.all(charged.map((b) => store.increment(b.key, -cost, b.ttlMs)));
+        return false;
+      }
+    }
+    return true;
+  } catch (err) {
+    console.error("Rate limit store failed:", err);
+    return true;
+  }
+}
+
+// What a generation request has been charged: its up-front `cost` plus one
+// poster per fidelity re-roll `reroll` let through. A failure on our side
+// refunds `charged()`.
+export function quotaCharge(store: RateLimitStore, client: QuotaClient, cost: number) {
+  let charged = cost;
+  return {
+    charged: () => charged,
+    reroll: async () => {
+      const allowed = await consumeExtraQuota(store, client, 1);
+      if (allowed) charged++;
+      return allowed;
+    },
+  };
+}
+
+// Give back the posters of a request charged at `chargedAt` whose generation
+// failed through no fault of the client's. The request itself still counts
+// against the per-minute limit.
+export async function refundQuota(
+  store: RateLimitStore,
+  client: QuotaClient,
+  cost: number,
+  chargedAt: number,
+  limits: QuotaLimits = quotaLimits()
+): Promise<void> {
+  try {
+    const days = buckets(client, limits, chargedAt).filter((b) => b.kind === "day");
+    await Promise.all(days.map((b) => store.increment(b.key, -cost, b.ttlMs)));
+  } catch (err) {
+    console.error("Rate limit store failed:", err);
+  }
+}
+
+// The 429 body for a refused request.
+export function quotaRefusal(quota: QuotaDecision): ErrorEnvelope {
+  return {
+    error: quota.message ?? "Too many posters right now. Try again later.",
+    code: quota.reason ?? "rate_limited",
+    retryable: quota.reason !== "quota_exceeded",
+    ...(quota.retryAfter ? { details: { retryAfter: quota.retryAfter } } : {}),
+  };
+}
+
+// Set the RateLimit-* headers (the client's daily quota), Retry-After for a
+// refusal, and the session cookie for a new client.
+export function applyQuota<R extends Response>(res: R, client: QuotaClient, quota: QuotaStatus | QuotaDecision): R {
+  if (quota.limit !== null && quota.remaining !== null && quota.resetAt !== null) {
+    res.headers.set("RateLimit-Limit", String(quota.limit));
+    res.headers.set("RateLimit-Remaining", String(quota.remaining));
+    res.headers.set("RateLimit-Reset", String(Math.max(0, Math.ceil((quota.resetAt - Date.now()) / 1000))));
+  }
+  const policy = [
+    quota.limit !== null && `${quota.limit};w=86400`,
+    quota.perMinute !== null && `${quota.perMinute};w=60`,
+  ].filter(Boolean);
+  if (policy.length) res.headers.set("RateLimit-Policy", policy.join(", "));
+  if ("retryAfter" in quota && quota.retryAfter) res.headers.set("Retry-After", String(quota.retryAfter));
+  return applySession(res, client);
+}
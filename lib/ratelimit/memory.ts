@@ -0,0 +1,36 @@
+// lib/ratelimit/memory.ts
+
+import { Counter, RateLimitStore } from "./types";
+
+// Sweep expired counters once the map grows past this.
+const SWEEP_AT = 1000;
+
+// Process-local counters for development and single-instance deployments.
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, Counter>();
+
+  function sweep(now: number) {
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) counters.delete(key);
+    }
+  }
+
+  return {
+    name: "memory",
+    async increment(key, amount, ttlMs) {
+      const now = Date.now();
+      if (counters.size >= SWEEP_AT) sweep(now);
+      const current = counters.get(key);
+      const counter =
+        current && current.resetAt > now
+          ? { count: current.count + amount, resetAt: current.resetAt }
+          : { count: amount, resetAt: now + ttlMs };
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > Date.now() ? { ...counter } : null;
+    },
+  };
+}
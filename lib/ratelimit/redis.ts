@@ -0,0 +1,66 @@
+// lib/ratelimit/redis.ts
+
+import { RateLimitStore } from "./types";
+
+// The one thing the store needs from a Redis client: run commands in a single
+// round trip and return their replies in order. The REST client below speaks
+// the Upstash pipeline API; a TCP client such as ioredis fits with
+// `(cmds) => redis.pipeline(cmds).exec()` and unwrapping the [err, reply] pairs.
+export interface RedisClient {
+  pipeline(commands: (string | number)[][]): Promise<unknown[]>;
+}
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RedisError";
+  }
+}
+
+// Redis over HTTP: POST {url}/pipeline with a bearer token.
+export function createRestRedisClient(url: string, token: string): RedisClient {
+  const endpoint = url.replace(/\/+$/, "") + "/pipeline";
+  return {
+    async pipeline(commands) {
+      const res = await fetch(endpoint, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(commands),
+      });
+      if (!res.ok) throw new RedisError(`Redis request failed with ${res.status}`);
+      const replies = (await res.json()) as { result?: unknown; error?: string }[];
+      return replies.map((reply) => {
+        if (reply.error) throw new RedisError(reply.error);
+        return reply.result;
+      });
+    },
+  };
+}
+
+// Counters shared by every server instance. Keys get `prefix` so the store
+// can share a database with other data.
+export function createRedisRateLimitStore(client: RedisClient, prefix = "kids-poster:rl:"): RateLimitStore {
+  return {
+    name: "redis",
+    async increment(key, amount, ttlMs) {
+      const k = prefix + key;
+      // SET NX starts a fresh counter with its expiry; INCRBY leaves the
+      // expiry of an existing one alone.
+      const [, count, pttl] = await client.pipeline([
+        ["SET", k, "0", "PX", ttlMs, "NX"],
+        ["INCRBY", k, amount],
+        ["PTTL", k],
+      ]);
+      return { count: Number(count), resetAt: Date.now() + Math.max(0, Number(pttl)) };
+    },
+    async get(key) {
+      const k = prefix + key;
+      const [count, pttl] = await client.pipeline([
+        ["GET", k],
+        ["PTTL", k],
+      ]);
+      if (count === null || count === undefined || Number(pttl) < 0) return null;
+      return { count: Number(count), resetAt: Date.now() + Number(pttl) };
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// lib/ratelimit/types.ts
+
+// A counter in the store and when it expires (epoch ms).
+export type Counter = { count: number; resetAt: number };
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Add `amount` (negative to give it back) to `key`. A missing or expired
+  // key starts from 0 and expires `ttlMs` from now.
+  increment(key: string, amount: number, ttlMs: number): Promise<Counter>;
+  get(key: string): Promise<Counter | null>;
+}
+
+// Generation requests a client may make per minute, and posters it may
+// generate per day (UTC). 0 turns a limit off.
+export type QuotaLimits = { perMinute: number; perDay: number };
+
+// The client's daily quota as reported to the UI. `limit` is null when there
+// is no daily quota.
+export type QuotaStatus = {
+  limit: number | null;
+  remaining: number | null;
+  // Epoch ms of the next reset.
+  resetAt: number | null;
+  perMinute: number | null;
+};
+
+// The outcome of charging a request to the client's quota. A refused request
+// isn't charged; `retryAfter` is in seconds.
+export type QuotaDecision = QuotaStatus & {
+  allowed: boolean;
+  reason?: "rate_limited" | "quota_exceeded";
+  retryAfter?: number;
+  message?: string;
+};
@@ -0,0 +1,93 @@
+// lib/refine.ts
+
+import sharp from "sharp";
+import { createFidelityChecker, fidelityThreshold } from "./fidelity";
+import { GenerateResult, storePoster, TitleOptions } from "./generate";
+import { ReportStage } from "./jobs";
+import { compositeMasked, readMask, toProviderMask } from "./masking";
+import { editWithRetry, ImageProvider, ImageSize } from "./providers";
+import { StorageDriver } from "./storage";
+
+// The instruction is user input, so it is quoted and the rules after it win.
+export function buildRefinePrompt(instruction: string, masked = true): string {
+  if (!masked) {
+    return `
+      Refine this poster as requested: "${instruction.trim()}"
+      1. Preserve ALL shapes, proportions, and line strokes of the drawing exactly.
+      2. Do NOT change faces, figures, or geometry. No new characters or objects.
+      3. Keep everything the instruction does not mention as it is.
+      4. Do NOT add any text.
+      5. If the request conflicts with these rules, follow the rules.
+    `;
+  }
+  return `
+      Edit ONLY the masked area of this poster as requested: "${instruction.trim()}"
+      1. Keep the colours, paper texture and style consistent with the rest of the poster.
+      2. Do NOT change anything outside the masked area.
+      3. Do NOT add any text.
+      4. If the request conflicts with these rules, follow the rules.
+    `;
+}
+
+// Closest supported generation size for an artwork's aspect ratio.
+export function sizeForAspect(width: number, height: number): ImageSize {
+  const ratio = width / height;
+  return ratio > 1.2 ? "1536x1024" : ratio < 0.83 ? "1024x1536" : "1024x1024";
+}
+
+type RefineOptions = TitleOptions & {
+  art: Uint8Array;
+  // Opaque = repaint. Without a mask the whole poster is refined.
+  mask?: Uint8Array;
+  instruction: string;
+  provider: ImageProvider;
+  storage: StorageDriver;
+  timeoutMs: number;
+  report?: ReportStage;
+};
+
+// Repaint the masked region of an artwork (or, without a mask, follow the
+// instruction across the whole poster) and store the result as a new poster.
+export async function refinePoster({
+  art,
+  mask,
+  instruction,
+  provider,
+  storage,
+  timeoutMs,
+  report = () => {},
+  ...title
+}: RefineOptions): Promise<GenerateResult> {
+  report("preparing", 5);
+  const png = await sharp(art).removeAlpha().png().toBuffer();
+  const { width = 1024, height = 1024 } = await sharp(png).metadata();
+  const edit = mask ? await readMask(mask, width, height) : null;
+  if (edit && !edit.painted) throw new RangeError("The mask is empty; paint the area to change");
+
+  report("generating", 15);
+  const controller = new AbortController();
+  const kill = setTimeout(() => controller.abort(), timeoutMs);
+  // The size follows the artwork, so there is no square fallback.
+  const { bytes: edited } = await editWithRetry(
+    provider,
+    {
+      image: new Blob([new Uint8Array(png)], { type: "image/png" }),
+      mask: edit ? await toProviderMask(edit) : undefined,
+      prompt: buildRefinePrompt(instruction, !!edit),
+      size: sizeForAspect(width, height),
+      signal: controller.signal,
+    },
+    { deadline: Date.now() + timeoutMs, fallbackSize: null, onRetry: () => report("retrying", 15) }
+  ).finally(() => clearTimeout(kill));
+
+  report("storing", 85);
+  if (edit) {
+    const result = await compositeMasked(new Uint8Array(png), edited, edit);
+    return { posters: [await storePoster(storage, result, title)] };
+  }
+
+  // A whole-poster refine can drift from the drawing; flag it like a generation.
+  const fidelity = await (await createFidelityChecker(new Uint8Array(png)))(edited);
+  const stored = await storePoster(storage, edited, title);
+  return { posters: [{ ...stored, fidelity, lowFidelity: fidelity < fidelityThreshold() }] };
+}
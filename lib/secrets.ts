@@ -0,0 +1,11 @@
+// lib/secrets.ts
+// Keys that sign URLs and cookies. Development falls back to a fixed key so
+// the app runs without setup; production refuses to, since a key that is in
+// the source lets anyone forge signatures.
+
+export function requireSecret(name: string, devFallback: string): string {
+  const value = process.env[name];
+  if (value) return value;
+  if (process.env.NODE_ENV === "production") throw new Error(`${name} must be set in production`);
+  return devFallback;
+}
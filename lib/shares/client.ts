@@ -0,0 +1,39 @@
+// lib/shares/client.ts
+// Browser-side helpers for creating and revoking share links.
+
+import { ApiError, readErrorEnvelope } from "../errors";
+import type { ShareView } from "./types";
+
+// Share one of the caller's generated posters by its storage `key`.
+export type ShareRequest = { key: string; title: string; caption: string };
+
+export async function createShare({ key, title, caption }: ShareRequest): Promise<ShareView> {
+  const body = new FormData();
+  body.append("key", key);
+  body.append("title", title);
+  body.append("caption", caption);
+  const res = await fetch("/api/shares", { method: "POST", body });
+  if (!res.ok) throw new ApiError(await readErrorEnvelope(res));
+  return (await res.json()) as ShareView;
+}
+
+export async function revokeShare(id: string): Promise<void> {
+  const res = await fetch(`/api/shares/${encodeURIComponent(id)}`, { method: "DELETE" });
+  // Already gone is as good as revoked.
+  if (!res.ok && res.status !== 404) throw new ApiError(await readErrorEnvelope(res));
+}
+
+// The system share sheet where there is one (phones), else the clipboard.
+// Returns how the link was passed on, or null if the user cancelled.
+export async function passOnLink(share: ShareView): Promise<"shared" | "copied" | null> {
+  if (typeof navigator.share === "function") {
+    try {
+      await navigator.share({ title: share.title || "Kids poster", url: share.url });
+      return "shared";
+    } catch (err) {
+      if ((err as Error).name === "AbortError") return null;
+    }
+  }
+  await navigator.clipboard.writeText(share.url);
+  return "copied";
+}
@@ -0,0 +1,106 @@
+// lib/shares/index.ts
+// Public links to finished posters at /p/[id].
+
+import { randomBytes } from "crypto";
+import sharp from "sharp";
+import { StorageDriver } from "../storage";
+import { createMemoryShareRepository } from "./memory";
+import { createSqliteShareRepository } from "./sqlite";
+import { Share, sharePath, ShareRepository, ShareView } from "./types";
+
+export * from "./types";
+export { createMemoryShareRepository, createSqliteShareRepository };
+
+// Link previews (Open Graph, Twitter) get a JPEG at most this many pixels
+// per side; messaging apps skip large images.
+const PREVIEW_SIDE = 1200;
+
+const globalForShares = globalThis as unknown as { __shareRepository?: ShareRepository };
+
+// Shares live next to the poster records: POSTER_REPOSITORY picks "memory"
+// (default) or "sqlite" (file at POSTER_DB_PATH).
+export function getShareRepository(): ShareRepository {
+  if (globalForShares.__shareRepository) return globalForShares.__shareRepository;
+  const name = process.env.POSTER_REPOSITORY || "memory";
+  switch (name) {
+    case "sqlite":
+      globalForShares.__shareRepository = createSqliteShareRepository(
+        process.env.POSTER_DB_PATH || ".data/posters.db"
+      );
+      break;
+    case "memory":
+      globalForShares.__shareRepository = createMemoryShareRepository();
+      break;
+    default:
+      throw new Error(`Unknown POSTER_REPOSITORY "${name}" (expected "sqlite" or "memory")`);
+  }
+  return globalForShares.__shareRepository;
+}
+
+// The public origin for absolute share URLs: SITE_URL, or the host the
+// request came in on (as forwarded by a proxy).
+export function siteOrigin(headers: Headers): string {
+  if (process.env.SITE_URL) return process.env.SITE_URL.replace(/\/+$/, "");
+  const host = headers.get("x-forwarded-host") || headers.get("host") || "localhost:3000";
+  const proto = headers.get("x-forwarded-proto")?.split(",")[0].trim() || (host.startsWith("localhost") ? "http" : "https");
+  return `${proto}://${host}`;
+}
+
+type ShareOptions = {
+  repository: ShareRepository;
+  storage: StorageDriver;
+  // The final poster, title included.
+  poster: Uint8Array;
+  ownerId: string;
+  title: string;
+  caption: string;
+};
+
+// Store a copy of the poster and its preview and save the share. The id is
+// random and long enough that links can't be guessed.
+export async function createShare({ repository, storage, poster, ownerId, title, caption }: ShareOptions): Promise<Share> {
+  const id = randomBytes(12).toString("base64url");
+  const imageKey = `shares/${id}.png`;
+  const previewKey = `shares/${id}-preview.jpg`;
+  const preview = await sharp(poster)
+    .resize(PREVIEW_SIDE, PREVIEW_SIDE, { fit: "inside", withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 82, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+  await storage.put(imageKey, await sharp(poster).png().toBuffer(), "image/png");
+  await storage.put(previewKey, new Uint8Array(preview.data), "image/jpeg");
+
+  const share: Share = {
+    id,
+    ownerId,
+    imageKey,
+    previewKey,
+    width: preview.info.width,
+    height: preview.info.height,
+    title,
+    caption,
+    createdAt: Date.now(),
+  };
+  await repository.save(share);
+  return share;
+}
+
+// Delete a share and its files. The link stops working at once; copies a
+// messaging app has already fetched for its preview are out of our hands.
+export async function revokeShare(repository: ShareRepository, storage: StorageDriver, share: Share): Promise<void> {
+  await repository.delete(share.id);
+  await Promise.all([storage.delete(share.imageKey), storage.delete(share.previewKey)]);
+}
+
+// `origin` makes the URLs absolute; `viewer` is the caller's session id.
+export function toShareView(share: Share, origin: string, viewer: string | null): ShareView {
+  return {
+    id: share.id,
+    title: share.title,
+    caption: share.caption,
+    createdAt: share.createdAt,
+    url: origin + sharePath(share.id),
+    imageUrl: origin + sharePath(share.id, "poster.png"),
+    owner: viewer === share.ownerId,
+  };
+}
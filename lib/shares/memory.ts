@@ -0,0 +1,23 @@
+// lib/shares/memory.ts
+
+import { Share, ShareRepository } from "./types";
+
+// Process-local repository; shares are lost on restart.
+export function createMemoryShareRepository(): ShareRepository {
+  const shares = new Map<string, Share>();
+  const clone = (s: Share): Share => structuredClone(s);
+
+  return {
+    name: "memory",
+    async save(share) {
+      shares.set(share.id, clone(share));
+    },
+    async get(id) {
+      const share = shares.get(id);
+      return share ? clone(share) : null;
+    },
+    async delete(id) {
+      return shares.delete(id);
+    },
+  };
+}
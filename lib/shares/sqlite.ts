@@ -0,0 +1,86 @@
+// lib/shares/sqlite.ts
+
+import { openDatabase } from "../sqlite";
+import { Share, ShareRepository } from "./types";
+
+type Row = {
+  id: string;
+  owner_id: string;
+  image_key: string;
+  preview_key: string;
+  width: number;
+  height: number;
+  title: string;
+  caption: string;
+  created_at: number;
+};
+
+// Shares in the same SQLite file as the poster records.
+export function createSqliteShareRepository(file: string): ShareRepository {
+  const db = openDatabase(file);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS shares (
+      id TEXT PRIMARY KEY,
+      owner_id TEXT NOT NULL,
+      image_key TEXT NOT NULL,
+      preview_key TEXT NOT NULL,
+      width INTEGER NOT NULL,
+      height INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      caption TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+
+  const upsert = db.prepare(`
+    INSERT INTO shares (id, owner_id, image_key, preview_key, width, height, title, caption, created_at)
+    VALUES (@id, @owner_id, @image_key, @preview_key, @width, @height, @title, @caption, @created_at)
+    ON CONFLICT (id) DO UPDATE SET
+      image_key = excluded.image_key,
+      preview_key = excluded.preview_key,
+      width = excluded.width,
+      height = excluded.height,
+      title = excluded.title,
+      caption = excluded.caption
+  `);
+  const selectOne = db.prepare<[string], Row>("SELECT * FROM shares WHERE id = ?");
+  const remove = db.prepare<[string]>("DELETE FROM shares WHERE id = ?");
+
+  function fromRow(row: Row): Share {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      imageKey: row.image_key,
+      previewKey: row.preview_key,
+      width: row.width,
+      height: row.height,
+      title: row.title,
+      caption: row.caption,
+      createdAt: row.created_at,
+    };
+  }
+
+  return {
+    name: "sqlite",
+    async save(share) {
+      upsert.run({
+        id: share.id,
+        owner_id: share.ownerId,
+        image_key: share.imageKey,
+        preview_key: share.previewKey,
+        width: share.width,
+        height: share.height,
+        title: share.title,
+        caption: share.caption,
+        created_at: share.createdAt,
+      });
+    },
+    async get(id) {
+      const row = selectOne.get(id);
+      return row ? fromRow(row) : null;
+    },
+    async delete(id) {
+      return remove.run(id).changes > 0;
+    },
+  };
+}
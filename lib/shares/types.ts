@@ -0,0 +1,39 @@
+// lib/shares/types.ts
+// Client-safe: no server-only imports.
+
+// A public link to one finished poster. The image is a copy made when the
+// link was created, so it doesn't depend on the gallery record; `ownerId` is
+// the anonymous session that created it, the only one that may revoke it.
+export type Share = {
+  id: string;
+  ownerId: string;
+  // The poster as shared (PNG) and a smaller JPEG for link previews.
+  imageKey: string;
+  previewKey: string;
+  // Pixel size of the preview, for og:image:width/height.
+  width: number;
+  height: number;
+  title: string;
+  caption: string;
+  createdAt: number;
+};
+
+// A share as the API returns it. `owner` says whether the caller may revoke it.
+export type ShareView = Pick<Share, "id" | "title" | "caption" | "createdAt"> & {
+  url: string;
+  imageUrl: string;
+  owner: boolean;
+};
+
+// Persistence for shares. Revoking deletes the share.
+export interface ShareRepository {
+  readonly name: string;
+  save(share: Share): Promise<void>;
+  get(id: string): Promise<Share | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// The public page of a share and the files it serves.
+export function sharePath(id: string, file?: "poster.png" | "preview.jpg"): string {
+  return file ? `/p/${id}/${file}` : `/p/${id}`;
+}
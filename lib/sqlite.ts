@@ -0,0 +1,18 @@
+// lib/sqlite.ts
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import path from "path";
+
+const open = new Map<string, Database.Database>();
+
+// One connection per database file, shared by the repositories that use it.
+export function openDatabase(file: string): Database.Database {
+  const existing = open.get(file);
+  if (existing) return existing;
+  if (file !== ":memory:") mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  open.set(file, db);
+  return db;
+}
@@ -0,0 +1,55 @@
+// lib/storage/index.ts
+
+import { requireSecret } from "../secrets";
+import { createLocalStorage, LocalStorageDriver } from "./local";
+import { createSupabaseStorage } from "./supabase";
+import { StorageDriver, UrlOptions } from "./types";
+
+export * from "./types";
+export { contentTypeFor, createLocalStorage } from "./local";
+export type { LocalStorageDriver } from "./local";
+export { createSupabaseStorage };
+
+let cached: StorageDriver | null = null;
+
+// Pick the storage driver from STORAGE_DRIVER ("supabase" default, or "local").
+// The driver is created lazily so a misconfigured one only fails when used.
+// Signed local URLs need LOCAL_STORAGE_SECRET in production.
+export function getStorage(): StorageDriver {
+  if (cached) return cached;
+  const name = process.env.STORAGE_DRIVER || "supabase";
+  switch (name) {
+    case "local":
+      cached = createLocalStorage(
+        process.env.LOCAL_STORAGE_DIR || ".data/storage",
+        defaultUrlOptions().signed
+          ? requireSecret("LOCAL_STORAGE_SECRET", "dev-only-local-storage-secret")
+          : process.env.LOCAL_STORAGE_SECRET || "dev-only-local-storage-secret"
+      );
+      break;
+    case "supabase": {
+      const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+      const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !key) throw new Error("Missing Supabase env vars");
+      cached = createSupabaseStorage(url, key, process.env.SUPABASE_BUCKET || "kids-posters");
+      break;
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected "supabase" or "local")`);
+  }
+  return cached;
+}
+
+export function getLocalStorage(): LocalStorageDriver | null {
+  const storage = getStorage();
+  return storage.name === "local" ? (storage as LocalStorageDriver) : null;
+}
+
+// URL options from env: STORAGE_SIGNED_URLS=1 returns expiring links
+// (lifetime STORAGE_SIGNED_URL_TTL seconds, default one hour).
+export function defaultUrlOptions(): UrlOptions {
+  return {
+    signed: process.env.STORAGE_SIGNED_URLS === "1",
+    expiresIn: Number(process.env.STORAGE_SIGNED_URL_TTL) || 3600,
+  };
+}
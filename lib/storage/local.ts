@@ -0,0 +1,76 @@
+// lib/storage/local.ts
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageDriver, StorageError } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".json": "application/json",
+};
+
+export function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || "application/octet-stream";
+}
+
+export interface LocalStorageDriver extends StorageDriver {
+  // Check the ?expires=&sig= pair of a signed URL produced by getUrl.
+  verify(key: string, expires: string | null, sig: string | null): boolean;
+}
+
+// Files live on disk under `root` and are served by app/api/files/[...key].
+export function createLocalStorage(root: string, secret: string, baseUrl = "/api/files"): LocalStorageDriver {
+  const resolved = path.resolve(root);
+
+  function fileFor(key: string): string {
+    const file = path.resolve(resolved, key);
+    if (!file.startsWith(resolved + path.sep)) throw new StorageError(`Invalid storage key: ${key}`);
+    return file;
+  }
+
+  function sign(key: string, expires: number): string {
+    return createHmac("sha256", secret).update(`${key}:${expires}`).digest("hex");
+  }
+
+  return {
+    name: "local",
+    async put(key, bytes) {
+      const file = fileFor(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, bytes);
+    },
+    async get(key) {
+      try {
+        const bytes = await fs.readFile(fileFor(key));
+        return { bytes: new Uint8Array(bytes), contentType: contentTypeFor(key) };
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+      }
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+    async getUrl(key, opts = {}) {
+      fileFor(key);
+      const href = `${baseUrl}/${key.split("/").map(encodeURIComponent).join("/")}`;
+      if (!opts.signed) return href;
+      const expires = Math.floor(Date.now() / 1000) + (opts.expiresIn ?? 3600);
+      return `${href}?expires=${expires}&sig=${sign(key, expires)}`;
+    },
+    verify(key, expires, sig) {
+      if (!expires || !sig) return false;
+      const exp = Number(expires);
+      if (!Number.isFinite(exp) || exp < Date.now() / 1000) return false;
+      const expected = Buffer.from(sign(key, exp), "hex");
+      const given = Buffer.from(sig, "hex");
+      return expected.length === given.length && timingSafeEqual(expected, given);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// lib/storage/supabase.ts
+
+import { createClient } from "@supabase/supabase-js";
+import { StorageDriver, StorageError } from "./types";
+
+export function createSupabaseStorage(url: string, serviceRoleKey: string, bucket: string): StorageDriver {
+  const supabase = createClient(url, serviceRoleKey);
+  const files = () => supabase.storage.from(bucket);
+
+  return {
+    name: "supabase",
+    async put(key, bytes, contentType) {
+      const { error } = await files().upload(key, bytes, { contentType, upsert: true });
+      if (error) throw new StorageError(`Supabase upload failed: ${error.message}`);
+    },
+    async get(key) {
+      const { data, error } = await files().download(key);
+      if (error || !data) return null;
+      return { bytes: new Uint8Array(await data.arrayBuffer()), contentType: data.type || "application/octet-stream" };
+    },
+    async delete(key) {
+      const { error } = await files().remove([key]);
+      if (error) throw new StorageError(`Supabase delete failed: ${error.message}`);
+    },
+    async getUrl(key, opts = {}) {
+      if (opts.signed) {
+        const { data, error } = await files().createSignedUrl(key, opts.expiresIn ?? 3600);
+        if (error || !data?.signedUrl) {
+          throw new StorageError(`Could not create signed URL from Supabase${error ? `: ${error.message}` : ""}`);
+        }
+        return data.signedUrl;
+      }
+      const { data } = files().getPublicUrl(key);
+      if (!data?.publicUrl) throw new StorageError("Could not get public URL from Supabase");
+      return data.publicUrl;
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// lib/storage/types.ts
+
+export type UrlOptions = {
+  // Return an expiring signed URL instead of a permanent public one.
+  signed?: boolean;
+  // Lifetime of a signed URL in seconds.
+  expiresIn?: number;
+};
+
+export type StoredObject = { bytes: Uint8Array; contentType: string };
+
+// A storage driver keeps generated files under a string key (e.g. "posters/<uuid>.png").
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string, opts?: UrlOptions): Promise<string>;
+}
+
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageError";
+  }
+}
@@ -0,0 +1,71 @@
+// lib/styles.ts
+// Style presets shared by the client controls and the generation route.
+// Adding a style means adding one entry here (plus its thumbnail in public/styles).
+
+export type StylePreset = {
+  label: string;
+  // Extra prompt rules for this style, appended to the shared guidance.
+  prompt: string[];
+  // Default palette; the first colour is the default accent.
+  palette: string[];
+  // Default for "Allow simple shapes".
+  allowShapes: boolean;
+  thumbnail: string;
+};
+
+export const STYLE_PRESETS = {
+  matisse: {
+    label: "Matisse-esque",
+    prompt: [
+      "Think Matisse paper cut-outs: organic, hand-cut edges and bold saturated colour fields.",
+      "Let leaf- and seaweed-like forms echo the drawing's rhythm without covering it.",
+    ],
+    palette: ["#E63946", "#1D3557", "#F4A261", "#2A9D8F", "#F1FAEE"],
+    allowShapes: true,
+    thumbnail: "/styles/matisse.svg",
+  },
+  bauhaus: {
+    label: "Bauhaus",
+    prompt: [
+      "Use Bauhaus principles: primary colours, circles, squares and triangles, strict grid.",
+      "Keep backgrounds flat and geometric; favour asymmetric balance.",
+    ],
+    palette: ["#D62828", "#003049", "#F7B801", "#111111", "#F5F1E6"],
+    allowShapes: true,
+    thumbnail: "/styles/bauhaus.svg",
+  },
+  "mid-century": {
+    label: "Mid-century",
+    prompt: [
+      "Use a mid-century modern print look: warm muted tones, slight paper grain, gentle offsets.",
+      "Favour boomerang and pebble-like forms over hard geometry.",
+    ],
+    palette: ["#E76F51", "#264653", "#E9C46A", "#8AB17D", "#F4EDE1"],
+    allowShapes: true,
+    thumbnail: "/styles/mid-century.svg",
+  },
+  minimalist: {
+    label: "Minimalist",
+    prompt: [
+      "Keep it minimalist: at most three colours plus paper white, generous empty space.",
+      "No decorative additions; let the drawing carry the poster.",
+    ],
+    palette: ["#222222", "#C8553D", "#F2F2F2"],
+    allowShapes: false,
+    thumbnail: "/styles/minimalist.svg",
+  },
+} satisfies Record<string, StylePreset>;
+
+export type StyleId = keyof typeof STYLE_PRESETS;
+
+export const DEFAULT_STYLE: StyleId = "matisse";
+
+export const STYLE_IDS = Object.keys(STYLE_PRESETS) as StyleId[];
+
+export function isStyleId(v: string): v is StyleId {
+  return Object.prototype.hasOwnProperty.call(STYLE_PRESETS, v);
+}
+
+export function getStylePreset(id: StyleId): StylePreset {
+  return STYLE_PRESETS[id];
+}
@@ -0,0 +1,26 @@
+// lib/text.ts
+// Free text from users (titles, captions, refine instructions) is cleaned
+// before it reaches a prompt or the title overlay. Client-safe.
+
+export const MAX_TITLE_LENGTH = 60;
+export const MAX_CAPTION_LENGTH = 80;
+export const MAX_INSTRUCTION_LENGTH = 300;
+
+// NFC-normalize, drop control and invisible formatting characters, replace
+// the quote/bracket characters a prompt uses to delimit user text, and
+// collapse whitespace to single spaces.
+export function sanitizeText(raw: string): string {
+  return raw
+    .normalize("NFC")
+    .replace(/[\p{Cc}\p{Cf}]/gu, " ")
+    .replace(/["“”„«»`]/g, "'")
+    .replace(/[<>{}[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function checkText(raw: string, field: string, max: number): { value?: string; error?: string } {
+  const value = sanitizeText(raw);
+  if ([...value].length > max) return { error: `${field} must be at most ${max} characters` };
+  return { value };
+}
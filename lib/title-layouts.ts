@@ -0,0 +1,29 @@
+// lib/title-layouts.ts
+// Title layouts and fonts shared by the typography engine and the client controls.
+
+export const TITLE_LAYOUTS = {
+  "bottom-bar": "Bottom bar",
+  "top-band": "Top band",
+  "gallery-label": "Gallery label",
+  spine: "Vertical spine",
+} as const;
+
+export type TitleLayout = keyof typeof TITLE_LAYOUTS;
+
+export const TITLE_FONTS = {
+  fredoka: "Fredoka (playful)",
+  nunito: "Nunito (clean)",
+} as const;
+
+export type TitleFont = keyof typeof TITLE_FONTS;
+
+// Server-side title overlay settings sent with a generation or refine request.
+export type Typography = { layout: TitleLayout; font: TitleFont; caption: string };
+
+export function isTitleLayout(v: string): v is TitleLayout {
+  return Object.prototype.hasOwnProperty.call(TITLE_LAYOUTS, v);
+}
+
+export function isTitleFont(v: string): v is TitleFont {
+  return Object.prototype.hasOwnProperty.call(TITLE_FONTS, v);
+}
@@ -0,0 +1,180 @@
+// lib/typography.ts
+
+import path from "path";
+import sharp from "sharp";
+import { TitleFont, TitleLayout } from "./title-layouts";
+
+export * from "./title-layouts";
+
+// Bundled fonts (SIL OFL, see assets/fonts/OFL.txt) so output does not depend
+// on what is installed on the server.
+const FONT_DIR = path.join(process.cwd(), "assets", "fonts");
+
+const FONTS: Record<TitleFont | "caption", { family: string; file: string }> = {
+  fredoka: { family: "Fredoka SemiBold", file: "Fredoka-SemiBold.ttf" },
+  nunito: { family: "Nunito Bold", file: "Nunito-Bold.ttf" },
+  caption: { family: "Nunito", file: "Nunito-Regular.ttf" },
+};
+
+export type TypesetOptions = {
+  layout: TitleLayout;
+  title: string;
+  // Secondary line, e.g. "Ida, 5 år — oktober 2026".
+  caption?: string;
+  font?: TitleFont;
+  // Band/bar colour; text colour is picked for contrast.
+  background?: string;
+};
+
+type TextImage = { input: Buffer; width: number; height: number };
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function isDark(hex: string): boolean {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!m) return false;
+  const n = parseInt(m[1], 16);
+  const luma = 0.299 * (n >> 16) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255);
+  return luma < 140;
+}
+
+// Render `text` at the largest size (≤ maxSize) that fits the box, wrapping
+// on words. Shrinks in 8% steps down to minSize; below that it is clipped by
+// the caller's box.
+async function renderFitted(
+  text: string,
+  font: keyof typeof FONTS,
+  box: { width: number; height: number },
+  maxSize: number,
+  color: string,
+  align: "left" | "centre" = "centre",
+  minSize = 10
+): Promise<TextImage> {
+  const { family, file } = FONTS[font];
+  let size = Math.max(minSize, Math.round(maxSize));
+  for (;;) {
+    const { data, info } = await sharp({
+      text: {
+        text: `<span foreground="${color}">${escapeMarkup(text)}</span>`,
+        font: `${family} ${size}`,
+        fontfile: path.join(FONT_DIR, file),
+        width: box.width,
+        dpi: 72,
+        rgba: true,
+        wrap: "word",
+        align,
+      },
+    })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+    if ((info.width <= box.width && info.height <= box.height) || size <= minSize) {
+      return { input: data, width: info.width, height: info.height };
+    }
+    size = Math.max(minSize, Math.floor(size * 0.92));
+  }
+}
+
+// Title + optional caption stacked in a box, caption at ~55% of title size.
+async function renderBlock(
+  opts: TypesetOptions,
+  box: { width: number; height: number },
+  titleSize: number,
+  color: string,
+  align: "left" | "centre" = "centre"
+): Promise<TextImage> {
+  const caption = opts.caption?.trim();
+  const gap = caption ? Math.round(titleSize * 0.25) : 0;
+  const titleBox = { width: box.width, height: caption ? Math.round(box.height * 0.65) : box.height };
+  const title = await renderFitted(opts.title.trim(), opts.font ?? "fredoka", titleBox, titleSize, color, align);
+  if (!caption) return title;
+
+  const captionBox = { width: box.width, height: Math.max(12, box.height - title.height - gap) };
+  const cap = await renderFitted(caption, "caption", captionBox, titleSize * 0.55, color, align);
+
+  const width = Math.max(title.width, cap.width);
+  const height = title.height + gap + cap.height;
+  const left = (w: number) => (align === "left" ? 0 : Math.round((width - w) / 2));
+  const input = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .composite([
+      { input: title.input, left: left(title.width), top: 0 },
+      { input: cap.input, left: left(cap.width), top: title.height + gap },
+    ])
+    .png()
+    .toBuffer();
+  return { input, width, height };
+}
+
+// Compose the poster with its title using one of the TITLE_LAYOUTS.
+// Everything is relative to the poster width, so results are identical for
+// every client and scale with the artwork.
+export async function typesetPoster(poster: Uint8Array, opts: TypesetOptions): Promise<Uint8Array> {
+  if (!opts.title.trim()) return poster;
+
+  const art = sharp(poster).rotate().flatten({ background: "#ffffff" });
+  const { width: w = 1024, height: h = 1024 } = await art.metadata();
+  const artPng = await art.png().toBuffer();
+  const bg = opts.background ?? (opts.layout === "top-band" || opts.layout === "spine" ? "#111827" : "#ffffff");
+  const color = isDark(bg) ? "#ffffff" : "#111827";
+  // Scale with the short side so wide collages don't get oversized bars.
+  const unit = Math.min(w, h) / 1024;
+
+  let canvas: { width: number; height: number };
+  let artPos: { left: number; top: number };
+  let text: TextImage;
+  let textPos: { left: number; top: number };
+
+  switch (opts.layout) {
+    case "bottom-bar": {
+      const bar = Math.round((opts.caption ? 190 : 140) * unit);
+      const pad = Math.round(48 * unit);
+      canvas = { width: w, height: h + bar };
+      artPos = { left: 0, top: 0 };
+      text = await renderBlock(opts, { width: w - 2 * pad, height: bar - Math.round(32 * unit) }, 36 * unit, color);
+      textPos = { left: Math.round((w - text.width) / 2), top: h + Math.round((bar - text.height) / 2) };
+      break;
+    }
+    case "top-band": {
+      const band = Math.round((opts.caption ? 220 : 170) * unit);
+      const pad = Math.round(56 * unit);
+      canvas = { width: w, height: h + band };
+      artPos = { left: 0, top: band };
+      text = await renderBlock(opts, { width: w - 2 * pad, height: band - Math.round(40 * unit) }, 56 * unit, color);
+      textPos = { left: Math.round((w - text.width) / 2), top: Math.round((band - text.height) / 2) };
+      break;
+    }
+    case "gallery-label": {
+      // Museum-style: white margin around the art, small left-aligned label below.
+      const margin = Math.round(64 * unit);
+      const label = Math.round(150 * unit);
+      canvas = { width: w + 2 * margin, height: h + 2 * margin + label };
+      artPos = { left: margin, top: margin };
+      text = await renderBlock(opts, { width: Math.round(w * 0.6), height: label - margin / 2 }, 28 * unit, color, "left");
+      textPos = { left: margin, top: h + margin + Math.round(margin / 2) };
+      break;
+    }
+    case "spine": {
+      // Vertical band on the left; text runs bottom-to-top.
+      const spine = Math.round((opts.caption ? 170 : 130) * unit);
+      const pad = Math.round(48 * unit);
+      canvas = { width: w + spine, height: h };
+      artPos = { left: spine, top: 0 };
+      const block = await renderBlock(opts, { width: h - 2 * pad, height: spine - Math.round(32 * unit) }, 44 * unit, color);
+      const rotated = await sharp(block.input).rotate(270, { background: { r: 0, g: 0, b: 0, alpha: 0 } }).png().toBuffer();
+      text = { input: rotated, width: block.height, height: block.width };
+      textPos = { left: Math.round((spine - text.width) / 2), top: Math.round((h - text.height) / 2) };
+      break;
+    }
+  }
+
+  const out = await sharp({ create: { ...canvas, channels: 3, background: bg } })
+    .composite([
+      { input: artPng, ...artPos },
+      { input: text.input, ...textPos },
+    ])
+    .removeAlpha()
+    .png()
+    .toBuffer();
+  return new Uint8Array(out);
+}
@@ -0,0 +1,96 @@
+// lib/uploads.ts
+// Uploaded images are checked before anything else touches them: the format
+// comes from the file's magic bytes (not its name or Content-Type), size and
+// pixel dimensions are capped, and the image is decoded and re-encoded so
+// EXIF/GPS metadata from phone photos never reaches storage or the provider.
+
+import sharp from "sharp";
+
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+// All files of one request together (batches and collages).
+export const MAX_TOTAL_UPLOAD_BYTES = 100 * 1024 * 1024;
+export const MAX_UPLOAD_SIDE = 8000;
+export const MAX_UPLOAD_PIXELS = 40_000_000;
+
+export type UploadErrorCode =
+  | "missing_image"
+  | "unsupported_format"
+  | "file_too_large"
+  | "dimensions_too_large"
+  | "unreadable_image";
+
+// A rejected upload. `status` is the 4xx to answer with.
+export class UploadError extends Error {
+  constructor(
+    readonly code: UploadErrorCode,
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export type ImageFormat = "jpeg" | "png" | "webp";
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  const starts = (sig: number[], at = 0) => sig.every((b, i) => bytes[at + i] === b);
+  if (starts([0xff, 0xd8, 0xff])) return "jpeg";
+  if (starts([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (starts([0x52, 0x49, 0x46, 0x46]) && starts([0x57, 0x45, 0x42, 0x50], 8)) return "webp";
+  return null;
+}
+
+// Validate one form field and return a clean re-encoded copy: PNG stays PNG
+// (masks, finished posters), everything else becomes JPEG. EXIF orientation
+// is applied before the metadata is dropped.
+export async function readImageUpload(value: FormDataEntryValue | null, field = "image"): Promise<File> {
+  if (!value || typeof value === "string") throw new UploadError("missing_image", field === "image" ? "No image uploaded" : `No ${field} uploaded`);
+  // Errors name the file, so a rejected batch says which drawing was the problem.
+  const label = value.name && value.name !== "blob" ? `"${value.name}"` : field;
+  if (value.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError("file_too_large", `${label} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+  const bytes = new Uint8Array(await value.arrayBuffer());
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new UploadError("unsupported_format", `${label} must be a JPEG, PNG or WebP image`, 415);
+  }
+
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(bytes, { limitInputPixels: false }).metadata();
+  } catch {
+    throw new UploadError("unreadable_image", `${label} could not be read as an image`, 422);
+  }
+  const { width = 0, height = 0 } = meta;
+  if (width > MAX_UPLOAD_SIDE || height > MAX_UPLOAD_SIDE || width * height > MAX_UPLOAD_PIXELS) {
+    throw new UploadError(
+      "dimensions_too_large",
+      `${label} is ${width}×${height}; the limit is ${MAX_UPLOAD_SIDE} px per side and ${MAX_UPLOAD_PIXELS / 1e6} MP`,
+      413
+    );
+  }
+
+  try {
+    const image = sharp(bytes).rotate();
+    const png = format === "png" || !!meta.hasAlpha;
+    const out = await (png ? image.png() : image.jpeg({ quality: 92 })).toBuffer();
+    const base = (value.name || field).replace(/\.[^.]+$/, "");
+    return new File([new Uint8Array(out)], `${base}.${png ? "png" : "jpg"}`, { type: png ? "image/png" : "image/jpeg" });
+  } catch {
+    throw new UploadError("unreadable_image", `${label} could not be read as an image`, 422);
+  }
+}
+
+// Every file of a repeated field, in order, within MAX_TOTAL_UPLOAD_BYTES.
+export async function readImageUploads(form: FormData, field = "image"): Promise<File[]> {
+  const values = form.getAll(field);
+  const total = values.reduce((sum, value) => sum + (typeof value === "string" ? 0 : value.size), 0);
+  if (total > MAX_TOTAL_UPLOAD_BYTES) {
+    throw new UploadError("file_too_large", `The drawings add up to more than ${MAX_TOTAL_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+  const files: File[] = [];
+  for (const value of values) files.push(await readImageUpload(value, field));
+  return files;
+}
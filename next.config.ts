@@ -3,6 +3,10 @@ const nextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Bundled fonts are read from disk by the typography engine
+  outputFileTracingIncludes: {
+    "/api/**": ["./assets/fonts/**"],
+  },
 };
 
 module.exports = nextConfig;
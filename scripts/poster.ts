@@ -0,0 +1,289 @@
+// scripts/poster.ts
+// Command-line poster generator: `npm run poster -- <drawings…> [options]`.
+// Flags are turned into the same form fields /api/generate reads, so they are
+// validated by the same schema and go through the same prompt, provider,
+// title overlay, storage, gallery and result cache code. Configuration comes
+// from the environment and .env files, as for the server.
+
+import { mkdir, readdir, readFile, stat, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { loadEnvConfig } from "@next/env";
+import { cacheKey, cachePolicy, getResultCache, lookupCachedResult } from "../lib/cache";
+import { generateAndRecord } from "../lib/gallery";
+import { buildPrompt, describeGenerateError, GenerateResult, generateParams } from "../lib/generate";
+import { MAX_VARIATIONS, parseGenerateRequest } from "../lib/generate-schema";
+import { getChildRepository } from "../lib/children";
+import { getImageProvider, ImageSize } from "../lib/providers";
+import { getPosterRepository } from "../lib/posters";
+import { getStorage } from "../lib/storage";
+import { STYLE_IDS, STYLE_PRESETS } from "../lib/styles";
+import { TITLE_FONTS, TITLE_LAYOUTS } from "../lib/title-layouts";
+import { readImageUpload } from "../lib/uploads";
+
+// The route's budget is bound by the request timeout; a script can wait longer.
+const DEFAULT_TIMEOUT_S = 180;
+
+// npm runs scripts from the package root; paths on the command line are
+// relative to where it was called. Config paths (.env, .data) stay relative
+// to the package root, as for the server.
+const CALLER_DIR = process.env.INIT_CWD || process.cwd();
+const fromCaller = (p: string) => path.resolve(CALLER_DIR, p);
+
+const USAGE = `Usage: npm run poster -- <drawing or glob…> [options]
+
+  --style <name>        ${STYLE_IDS.join(", ")} (or the style's label, e.g. Bauhaus)
+  --palette <colours>   3–6 comma-separated #RRGGBB colours
+  --accent <colour>     #RRGGBB accent colour
+  --enforce-palette     quantize the result to exactly --palette
+  --shapes, --no-shapes allow simple background shapes (default: the style's choice)
+  --title <text>        poster title
+  --ai-text             let the model letter the title into the artwork
+  --no-overlay          don't typeset the title on the poster
+  --layout <layout>     ${Object.keys(TITLE_LAYOUTS).join(", ")}
+  --font <font>         ${Object.keys(TITLE_FONTS).join(", ")}
+  --caption <text>      caption line under the title
+  --variations <n>      1–${MAX_VARIATIONS} results per drawing
+  --fidelity <mode>     off, warn (default) or retry
+  --child <id>          child profile the posters belong to
+  --fast                square instead of portrait
+  --force               skip the result cache
+  --timeout <seconds>   time budget per drawing (default ${DEFAULT_TIMEOUT_S})
+  --out <path>          output file for one poster, else a directory
+                        (default: <drawing>-poster.png in the current directory)
+  --dry-run             print the prompt and the inputs; generate nothing
+
+Quote globs ("scans/*.jpg", "scans/**/*.{jpg,png}") so they work in every shell.`;
+
+const OPTIONS = {
+  style: { type: "string" },
+  palette: { type: "string" },
+  accent: { type: "string" },
+  "enforce-palette": { type: "boolean" },
+  shapes: { type: "boolean" },
+  "no-shapes": { type: "boolean" },
+  title: { type: "string" },
+  "ai-text": { type: "boolean" },
+  "no-overlay": { type: "boolean" },
+  layout: { type: "string" },
+  font: { type: "string" },
+  caption: { type: "string" },
+  variations: { type: "string" },
+  fidelity: { type: "string" },
+  child: { type: "string" },
+  fast: { type: "boolean" },
+  force: { type: "boolean" },
+  timeout: { type: "string" },
+  out: { type: "string", short: "o" },
+  "dry-run": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+function parse(argv: string[]) {
+  return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+}
+
+type Options = ReturnType<typeof parse>["values"];
+
+// Posters made here are recorded under their own owner, not a browser session.
+const CLI_OWNER = "cli";
+
+// A usage mistake: printed without a stack trace, exit code 2.
+class CliError extends Error {}
+
+// A style id, or the label of one in any case ("Bauhaus", "mid-century").
+function resolveStyle(name: string): string {
+  const wanted = name.trim().toLowerCase();
+  return STYLE_IDS.find((id) => id === wanted || STYLE_PRESETS[id].label.toLowerCase() === wanted) ?? name;
+}
+
+// The flags as the multipart fields of /api/generate.
+function toForm(values: Options): FormData {
+  const form = new FormData();
+  const set = (name: string, value: string | boolean | undefined) => {
+    if (value !== undefined) form.append(name, String(value));
+  };
+  set("style", values.style && resolveStyle(values.style));
+  set("palette", values.palette);
+  set("paletteAccent", values.accent);
+  set("enforcePalette", values["enforce-palette"]);
+  set("allowShapes", values["no-shapes"] ? false : values.shapes);
+  set("aiText", values["ai-text"]);
+  set("titleText", values.title);
+  set("overlayTitle", !!values.title && !values["no-overlay"]);
+  set("titleLayout", values.layout);
+  set("titleFont", values.font);
+  set("caption", values.caption);
+  set("variations", values.variations);
+  set("fidelity", values.fidelity);
+  set("childId", values.child);
+  set("force", values.force);
+  return form;
+}
+
+// `*`, `?` and `{a,b}` within a path segment, `**` across segments.
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (glob.startsWith("**/", i)) {
+      re += "(?:.*/)?";
+      i += 2;
+    } else if (glob.startsWith("**", i)) {
+      re += ".*";
+      i += 1;
+    } else if (ch === "*") re += "[^/]*";
+    else if (ch === "?") re += "[^/]";
+    else if (ch === "{") {
+      re += "(?:";
+      braces++;
+    } else if (ch === "}" && braces) {
+      re += ")";
+      braces--;
+    } else if (ch === "," && braces) re += "|";
+    else re += ch.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`);
+}
+
+// Files matching a pattern, sorted; a plain path is returned as is.
+async function expandInput(pattern: string): Promise<string[]> {
+  const segments = pattern.split(/[\\/]/);
+  const first = segments.findIndex((s) => /[*?{]/.test(s));
+  if (first < 0) return [pattern];
+  const base = segments.slice(0, first).join("/") || ".";
+  const match = globToRegExp(segments.slice(first).join("/"));
+  const entries = await readdir(fromCaller(base), { recursive: true }).catch(() => [] as string[]);
+  const files: string[] = [];
+  for (const entry of entries) {
+    const rel = entry.split(path.sep).join("/");
+    if (match.test(rel) && (await stat(fromCaller(path.join(base, rel)))).isFile()) files.push(path.join(base, rel));
+  }
+  return files.sort((a, b) => a.localeCompare(b));
+}
+
+// Where each poster goes: `--out` is the file for a single poster, else a
+// directory of <drawing>-poster[-n].png files.
+function outputPaths(inputs: string[], variations: number, out: string | undefined): (input: string, i: number) => string {
+  const single = inputs.length === 1 && variations === 1;
+  if (out && single && path.extname(out)) return () => out;
+  if (out && !single && path.extname(out).toLowerCase() === ".png") {
+    throw new CliError(`--out must be a directory when making ${inputs.length * variations} posters`);
+  }
+  const dir = out ?? ".";
+  const names = new Map<string, string>();
+  for (const input of inputs) {
+    const base = path.basename(input, path.extname(input));
+    let name = base;
+    for (let n = 2; [...names.values()].includes(name); n++) name = `${base}-${n}`;
+    names.set(input, name);
+  }
+  return (input, i) => path.join(dir, `${names.get(input)}-poster${i > 0 ? `-${i + 1}` : ""}.png`);
+}
+
+async function readDrawing(file: string): Promise<File> {
+  const bytes = await readFile(fromCaller(file)).catch(() => {
+    throw new CliError(`Can't read ${file}`);
+  });
+  return readImageUpload(new File([new Uint8Array(bytes)], path.basename(file)));
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parse(argv);
+  if (values.help || !positionals.length) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  loadEnvConfig(process.cwd(), false, { info: () => {}, error: console.error });
+
+  const { value: request, error } = parseGenerateRequest(toForm(values));
+  if (!request) throw new CliError(error.error);
+  const size: ImageSize = values.fast ? "1024x1024" : "1024x1536";
+  const params = generateParams(request, size);
+  const timeoutS = Number(values.timeout ?? DEFAULT_TIMEOUT_S);
+  if (!(timeoutS > 0)) throw new CliError("--timeout must be a number of seconds");
+
+  const inputs = [...new Set((await Promise.all(positionals.map(expandInput))).flat())];
+  if (!inputs.length) throw new CliError(`No drawings match ${positionals.join(" ")}`);
+  const target = outputPaths(inputs, params.variations, values.out);
+
+  if (values["dry-run"]) {
+    console.log(buildPrompt(params));
+    for (const input of inputs) {
+      const outs = Array.from({ length: params.variations }, (_, i) => target(input, i));
+      try {
+        await readDrawing(input);
+        console.log(`${input} → ${outs.join(", ")}`);
+      } catch (err) {
+        console.log(`${input}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return 0;
+  }
+
+  const provider = getImageProvider();
+  const storage = getStorage();
+  const repository = getPosterRepository();
+  const cache = cachePolicy().maxEntries > 0 ? getResultCache() : null;
+  if (request.childId && !(await getChildRepository().get(request.childId))) {
+    throw new CliError(`Unknown child ${request.childId}`);
+  }
+  if (values.out) await mkdir(fromCaller(path.extname(values.out) ? path.dirname(values.out) : values.out), { recursive: true });
+
+  let failed = 0;
+  for (const [n, input] of inputs.entries()) {
+    const label = `[${n + 1}/${inputs.length}] ${input}`;
+    try {
+      const image = await readDrawing(input);
+      const key = cache && cacheKey(new Uint8Array(await image.arrayBuffer()), params, CLI_OWNER);
+      let result: GenerateResult | null = null;
+      if (cache && key && !request.force) result = await lookupCachedResult(cache, repository, storage, key);
+      if (!result) {
+        let last = "";
+        result = await generateAndRecord({
+          image,
+          params,
+          provider,
+          storage,
+          repository,
+          ownerId: CLI_OWNER,
+          childId: request.childId,
+          timeoutMs: timeoutS * 1000,
+          report: (stage) => {
+            if (stage !== last) console.error(`${label}: ${(last = stage)}…`);
+          },
+        });
+        if (cache && key && result.recordId) await cache.set(key, result.recordId);
+      }
+      for (const [i, poster] of result.posters.entries()) {
+        const stored = await storage.get(poster.key);
+        if (!stored) throw new Error(`Stored poster ${poster.key} is missing`);
+        const file = target(input, i);
+        await writeFile(fromCaller(file), stored.bytes);
+        const notes = [
+          result.cached && "saved result",
+          poster.fidelity !== undefined && `fidelity ${Math.round(poster.fidelity * 100)}%`,
+          poster.lowFidelity && "may have changed the drawing",
+          poster.fallbackSize && `square (${poster.fallbackSize})`,
+        ].filter(Boolean);
+        console.log(`${label} → ${file}${notes.length ? ` (${notes.join(", ")})` : ""}`);
+      }
+    } catch (err) {
+      failed++;
+      const message = err instanceof CliError ? err.message : describeGenerateError(err).error;
+      console.error(`${label}: ${message}`);
+    }
+  }
+  if (failed) console.error(`${failed} of ${inputs.length} drawings failed.`);
+  return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err: unknown) => {
+    console.error(err instanceof CliError || (err as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS") ? (err as Error).message : err);
+    process.exit(2);
+  }
+);
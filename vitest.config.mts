@@ -0,0 +1,22 @@
+import { dirname } from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Tests run against the offline mock provider and in-memory stores; each
+// route test points the local storage driver at its own temporary directory.
+export default defineConfig({
+  resolve: {
+    alias: { "@": dirname(fileURLToPath(import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    env: {
+      IMAGE_PROVIDER: "mock",
+      STORAGE_DRIVER: "local",
+      POSTER_REPOSITORY: "memory",
+      RATE_LIMIT_STORE: "memory",
+    },
+  },
+});